@@ -0,0 +1,83 @@
+import React from 'react';
+import { AudioAlignment } from '../types';
+import { TIMING_MAP_ACCEPT } from '../utils/alignment';
+
+interface AudiobookPanelProps {
+  audioName: string | null;
+  alignment: AudioAlignment | null;
+  error: string | null;
+  // Audio time of the word on screen
+  position: number;
+  onImport: (file: File) => void;
+  onClear: () => void;
+  onSeekAudio: (seconds: number) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(s / 3600);
+  const mm = String(Math.floor((s % 3600) / 60)).padStart(h ? 2 : 1, '0');
+  const ss = String(s % 60).padStart(2, '0');
+  return h ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+const AudiobookPanel = ({ audioName, alignment, error, position, onImport, onClear, onSeekAudio }: AudiobookPanelProps) => (
+  <div className="glass p-8 md:p-10 rounded-[2rem] md:rounded-[2.5rem] space-y-8 border-white/5 md:col-span-2">
+    <div className="flex justify-between items-center">
+      <h3 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.3em]">Audiobook Sync</h3>
+      <div className="flex gap-2">
+        <label className="px-6 py-2 rounded-xl text-[9px] font-black uppercase transition-all shadow-xl bg-indigo-600 text-white cursor-pointer active:scale-95">
+          Timing Map
+          <input
+            type="file"
+            className="hidden"
+            accept={TIMING_MAP_ACCEPT}
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+        </label>
+        {alignment && (
+          <button onClick={onClear} className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-zinc-500 hover:text-white transition-all active:scale-95">Remove</button>
+        )}
+      </div>
+    </div>
+
+    {error && (
+      <div className="p-4 rounded-2xl border border-red-500/30 bg-red-500/10">
+        <p className="text-xs font-bold text-red-300 leading-relaxed">{error}</p>
+      </div>
+    )}
+
+    {alignment ? (
+      <div className="space-y-6">
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-[9px] font-black uppercase tracking-widest text-zinc-600">
+          <span className="text-indigo-400 truncate max-w-full">{alignment.source}</span>
+          <span>{alignment.starts.length} words</span>
+          <span>{formatTime(alignment.duration)}</span>
+          <span>{alignment.wpm} WPM</span>
+        </div>
+        {audioName ? (
+          <>
+            <div className="flex justify-between items-center">
+              <p className="text-[10px] font-black text-zinc-500 uppercase tracking-widest truncate">{audioName}</p>
+              <p className="text-xl font-black text-indigo-400 tabular-nums shrink-0">{formatTime(position)} / {formatTime(alignment.duration)}</p>
+            </div>
+            <input type="range" min="0" max={alignment.duration} step="0.1" value={position} onChange={e => onSeekAudio(parseFloat(e.target.value))} />
+            <p className="text-[8px] text-zinc-600 uppercase font-bold tracking-widest text-center italic">The recording paces the display · seeking either one moves the other</p>
+          </>
+        ) : (
+          <p className="text-[8px] text-zinc-600 uppercase font-bold tracking-widest text-center italic">Load the matching recording with the audio button to start syncing</p>
+        )}
+      </div>
+    ) : !error && (
+      <div className="h-16 flex items-center justify-center border-2 border-dashed border-white/5 rounded-2xl">
+        <p className="text-[9px] text-zinc-600 font-bold uppercase tracking-widest italic text-center">Import SRT, WebVTT or JSON word timings for a recording of this text</p>
+      </div>
+    )}
+  </div>
+);
+
+export default AudiobookPanel;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { ImportedText } from '../types';
+import { splitWords } from '../utils/textUtils';
+
+interface ChapterPickerProps {
+  book: ImportedText;
+  onPick: (title: string, text: string) => void;
+  onClose: () => void;
+}
+
+const ChapterPicker = ({ book, onPick, onClose }: ChapterPickerProps) => (
+  <div className="fixed inset-0 z-[60] bg-black/98 backdrop-blur-3xl p-6 md:p-20 flex flex-col overflow-y-auto custom-scrollbar">
+    <div className="max-w-4xl mx-auto w-full space-y-8 md:space-y-10">
+      <div className="flex justify-between items-center border-b border-white/10 pb-8 md:pb-10 gap-4">
+        <div className="flex flex-col min-w-0">
+          <h2 className="text-3xl md:text-5xl font-black italic tracking-tighter uppercase leading-tight truncate">{book.title}</h2>
+          <p className="text-blue-500 text-[10px] font-black uppercase tracking-[0.3em] mt-2">{book.chapters.length} chapters · Select source</p>
+        </div>
+        <button onClick={onClose} className="px-6 md:px-10 py-3 md:py-4 glass rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all active:scale-95 shrink-0">Cancel</button>
+      </div>
+
+      <button
+        onClick={() => onPick(book.title, book.text)}
+        className="w-full py-5 md:py-6 bg-white text-black rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-[0.4em] transition-all active:scale-[0.98]"
+      >
+        Load entire book · {splitWords(book.text).length} words
+      </button>
+
+      <div className="space-y-3">
+        {book.chapters.map((ch, i) => (
+          <button
+            key={i}
+            onClick={() => onPick(`${book.title} — ${ch.title}`, ch.text)}
+            className="w-full glass p-5 md:p-6 rounded-2xl md:rounded-3xl flex items-center gap-4 text-left hover:bg-white/10 transition-all active:scale-[0.99]"
+          >
+            <span className="text-[10px] font-black text-zinc-600 tabular-nums w-8 shrink-0">{String(i + 1).padStart(2, '0')}</span>
+            <span className="flex-1 font-bold text-zinc-100 truncate">{ch.title}</span>
+            <span className="text-[9px] font-black uppercase tracking-widest text-zinc-600 shrink-0">{splitWords(ch.text).length} words</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export default ChapterPicker;
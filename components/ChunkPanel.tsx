@@ -0,0 +1,61 @@
+import React from 'react';
+import { ChunkSettings } from '../types';
+
+interface ChunkPanelProps {
+  settings: ChunkSettings;
+  onChange: (settings: ChunkSettings) => void;
+}
+
+const ChunkPanel = ({ settings, onChange }: ChunkPanelProps) => (
+  <div className="glass p-8 md:p-10 rounded-[2rem] md:rounded-[2.5rem] space-y-8 border-white/5 md:col-span-2">
+    <div className="flex justify-between items-center">
+      <h3 className="text-[10px] font-black text-cyan-500 uppercase tracking-[0.3em]">Chunk Mode</h3>
+      <button
+        onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+        className={`px-6 py-2 rounded-xl text-[9px] font-black uppercase transition-all shadow-xl ${settings.enabled ? 'bg-cyan-600 text-white' : 'bg-zinc-800 text-zinc-500'}`}
+      >
+        {settings.enabled ? 'Active' : 'Single Word'}
+      </button>
+    </div>
+
+    {settings.enabled ? (
+      <div className="space-y-6">
+        <div className="flex gap-2 justify-center">
+          {(['words', 'chars'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onChange({ ...settings, mode })}
+              className={`px-4 py-1 rounded-lg text-[8px] font-black uppercase transition-all ${settings.mode === mode ? 'bg-cyan-600 text-white' : 'bg-zinc-800 text-zinc-500'}`}
+            >
+              {mode === 'words' ? 'Word Count' : 'Character Budget'}
+            </button>
+          ))}
+        </div>
+        {settings.mode === 'words' ? (
+          <>
+            <div className="flex justify-between items-center">
+              <p className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Words per chunk</p>
+              <p className="text-2xl font-black text-cyan-400">{settings.size}</p>
+            </div>
+            <input type="range" min="2" max="4" step="1" value={settings.size} onChange={e => onChange({ ...settings, size: parseInt(e.target.value) })} />
+          </>
+        ) : (
+          <>
+            <div className="flex justify-between items-center">
+              <p className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Characters per chunk</p>
+              <p className="text-2xl font-black text-cyan-400">{settings.chars}</p>
+            </div>
+            <input type="range" min="8" max="32" step="1" value={settings.chars} onChange={e => onChange({ ...settings, chars: parseInt(e.target.value) })} />
+          </>
+        )}
+        <p className="text-[8px] text-zinc-600 uppercase font-bold tracking-widest text-center italic">Phrases break at punctuation and never end on an article or preposition</p>
+      </div>
+    ) : (
+      <div className="h-16 flex items-center justify-center border-2 border-dashed border-white/5 rounded-2xl">
+        <p className="text-[9px] text-zinc-600 font-bold uppercase tracking-widest italic text-center">One word per flash</p>
+      </div>
+    )}
+  </div>
+);
+
+export default ChunkPanel;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { ClassroomSession, ClassroomSettings, ClassroomTransportKind } from '../types';
+import { AVAILABLE_TRANSPORTS, TRANSPORT_LABELS, ROOM_CODE_LENGTH, isRoomCode, normalizeRoomCode } from '../utils/classroom';
+
+interface ClassroomPanelProps {
+  settings: ClassroomSettings;
+  session: ClassroomSession | null;
+  error: string | null;
+  onChange: (settings: ClassroomSettings) => void;
+  onHost: () => Promise<void>;
+  onJoin: (room: string) => Promise<void>;
+  onLeave: () => void;
+}
+
+const TRANSPORT_HINTS: Record<ClassroomTransportKind, string> = {
+  broadcast: 'Links tabs and windows of this browser on this device',
+  websocket: 'Links any devices that can reach your relay · npm run relay',
+  local: 'In-page stand-in for a network · for development only',
+};
+
+const ClassroomPanel = ({ settings, session, error, onChange, onHost, onJoin, onLeave }: ClassroomPanelProps) => {
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    await action();
+    setBusy(false);
+  };
+
+  return (
+    <div className="glass p-8 md:p-10 rounded-[2rem] md:rounded-[2.5rem] space-y-8 border-white/5 md:col-span-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] font-black text-lime-400 uppercase tracking-[0.3em]">Classroom</h3>
+        {session && (
+          <button onClick={onLeave} className="px-6 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-zinc-500 hover:text-red-400 transition-all active:scale-95">
+            {session.role === 'host' ? 'End Class' : 'Leave'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-2xl border border-red-500/30 bg-red-500/10">
+          <p className="text-xs font-bold text-red-300 leading-relaxed">{error}</p>
+        </div>
+      )}
+
+      {session ? (
+        <div className="flex justify-between items-center gap-6">
+          <div className="space-y-2 min-w-0">
+            <p className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{session.role === 'host' ? 'Room Code' : 'Following Room'}</p>
+            <p className="text-5xl md:text-6xl font-black text-lime-400 tracking-[0.2em] tabular-nums">{session.room}</p>
+            {session.role === 'student' && session.title && (
+              <p className="text-[10px] font-black text-zinc-600 uppercase tracking-widest truncate">{session.title}</p>
+            )}
+          </div>
+          <div className="text-end space-y-2 shrink-0">
+            {session.role === 'host' && (
+              <p className="text-3xl font-black text-white tabular-nums">{session.students} <span className="text-[9px] text-zinc-600 uppercase tracking-widest">{session.students === 1 ? 'student' : 'students'}</span></p>
+            )}
+            <p className={`text-[9px] font-black uppercase tracking-widest ${session.connected ? 'text-lime-500' : 'text-amber-500 animate-pulse-soft'}`}>
+              {session.connected ? TRANSPORT_LABELS[settings.transport] : 'Reconnecting'}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className={`grid gap-2 ${AVAILABLE_TRANSPORTS.length > 2 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+            {AVAILABLE_TRANSPORTS.map(kind => (
+              <button
+                key={kind}
+                onClick={() => onChange({ ...settings, transport: kind })}
+                className={`py-3 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all active:scale-95 ${settings.transport === kind ? 'bg-lime-500 text-black' : 'bg-zinc-800 text-zinc-500 hover:text-white'}`}
+              >
+                {TRANSPORT_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+          {settings.transport === 'websocket' && (
+            <input
+              value={settings.relayUrl}
+              onChange={e => onChange({ ...settings, relayUrl: e.target.value.trim() })}
+              placeholder="ws://localhost:8787"
+              spellCheck={false}
+              className="w-full bg-black border border-white/10 rounded-xl px-4 py-3 text-sm font-bold text-zinc-200 outline-none focus:border-lime-500/40"
+            />
+          )}
+          <p className="text-[8px] text-zinc-600 uppercase font-bold tracking-widest italic">{TRANSPORT_HINTS[settings.transport]}</p>
+          <div className="grid grid-cols-2 gap-4">
+            <button
+              disabled={busy}
+              onClick={() => run(onHost)}
+              className="py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-lime-500 text-black transition-all active:scale-95 disabled:opacity-40"
+            >
+              Host a Class
+            </button>
+            <div className="flex gap-2">
+              <input
+                value={code}
+                onChange={e => setCode(normalizeRoomCode(e.target.value).slice(0, ROOM_CODE_LENGTH))}
+                onKeyDown={e => { if (e.key === 'Enter' && isRoomCode(code)) run(() => onJoin(code)); }}
+                placeholder="CODE"
+                spellCheck={false}
+                className="min-w-0 flex-1 bg-black border border-white/10 rounded-2xl px-4 text-center text-lg font-black tracking-[0.3em] text-lime-400 uppercase outline-none focus:border-lime-500/40"
+              />
+              <button
+                disabled={busy || !isRoomCode(code)}
+                onClick={() => run(() => onJoin(code))}
+                className="px-5 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-zinc-800 text-lime-400 hover:text-white transition-all active:scale-95 disabled:opacity-40"
+              >
+                Join
+              </button>
+            </div>
+          </div>
+          <p className="text-[8px] text-zinc-600 uppercase font-bold tracking-widest italic text-center">The host controls text, speed, play and seeking · students follow word for word</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClassroomPanel;
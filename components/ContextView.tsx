@@ -0,0 +1,69 @@
+import React, { useEffect, useRef } from 'react';
+import { DocModel } from '../types';
+import { spanIndexAt } from '../utils/textUtils';
+import { languageInfo, wordJoiner } from '../utils/language';
+
+interface ContextViewProps {
+  doc: DocModel;
+  idx: number;
+  language: string;
+  onSeek: (idx: number) => void;
+  onResume: () => void;
+}
+
+// Paused view of the paragraph around the current word. Any word can be tapped to move the reading position.
+const ContextView = ({ doc, idx, language, onSeek, onResume }: ContextViewProps) => {
+  const current = useRef<HTMLSpanElement | null>(null);
+
+  useEffect(() => {
+    current.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [idx]);
+
+  if (doc.paragraphs.length === 0) return null;
+  const para = doc.paragraphs[spanIndexAt(doc.paragraphs, idx)];
+  const sentence = doc.sentences[spanIndexAt(doc.sentences, idx)];
+  const paraWords = doc.words.slice(para.start, para.end);
+  const joiner = wordJoiner(language);
+
+  return (
+    <div className="mt-10 w-full max-w-2xl flex flex-col items-center gap-5" onClick={e => e.stopPropagation()}>
+      <div
+        lang={language}
+        dir={languageInfo(language).rtl ? 'rtl' : 'ltr'}
+        className="glass w-full max-h-[30vh] overflow-y-auto custom-scrollbar rounded-[1.5rem] md:rounded-[2rem] p-6 md:p-8 text-base md:text-lg leading-relaxed text-start"
+      >
+        {paraWords.map((w, i) => {
+          const abs = para.start + i;
+          const inSentence = abs >= sentence.start && abs < sentence.end;
+          return (
+            <React.Fragment key={abs}>
+              <span
+                ref={abs === idx ? current : undefined}
+                onClick={() => onSeek(abs)}
+                className={`cursor-pointer rounded px-0.5 transition-colors ${abs === idx ? 'bg-red-500/80 text-white font-bold' : inSentence ? 'text-zinc-100 hover:bg-white/10' : 'text-zinc-500 hover:text-zinc-200 hover:bg-white/10'}`}
+              >
+                {w}
+              </span>{joiner}
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onSeek(sentence.start)}
+          disabled={idx === sentence.start}
+          className="px-5 py-3 glass rounded-xl text-[9px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-all active:scale-95"
+        >
+          Rewind to sentence start
+        </button>
+        <button onClick={onResume} className="px-5 py-3 bg-white text-black rounded-xl text-[9px] font-black uppercase tracking-widest transition-all active:scale-95">
+          Resume
+        </button>
+      </div>
+      <p className="text-[9px] text-zinc-600 uppercase font-medium tracking-widest">Tap any word to read from there</p>
+    </div>
+  );
+};
+
+export default ContextView;
@@ -0,0 +1,100 @@
+import React, { useState, useMemo } from 'react';
+import { LibraryDocument } from '../types';
+import { searchDocuments } from '../utils/library';
+
+interface LibraryPanelProps {
+  docs: LibraryDocument[];
+  activeId: string | null;
+  onOpen: (doc: LibraryDocument) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onEditQuiz: (doc: LibraryDocument) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<LibraryDocument['source'], string> = {
+  pasted: 'Pasted',
+  ocr: 'Scanned',
+  file: 'Imported',
+};
+
+const LibraryPanel = ({ docs, activeId, onOpen, onRename, onDelete, onNew, onEditQuiz, onClose }: LibraryPanelProps) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const visible = useMemo(() => searchDocuments(docs, query), [docs, query]);
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/98 backdrop-blur-3xl p-6 md:p-20 flex flex-col overflow-y-auto custom-scrollbar">
+      <div className="max-w-4xl mx-auto w-full space-y-8 md:space-y-10">
+        <div className="flex justify-between items-center border-b border-white/10 pb-8 md:pb-10">
+          <div className="flex flex-col">
+            <h2 className="text-3xl md:text-6xl font-black italic tracking-tighter uppercase leading-tight">Library</h2>
+            <p className="text-blue-500 text-[10px] font-black uppercase tracking-[0.3em] mt-2">{docs.length} saved {docs.length === 1 ? 'text' : 'texts'}</p>
+          </div>
+          <div className="flex gap-2 md:gap-3 shrink-0">
+            <button onClick={onNew} className="px-6 md:px-8 py-3 md:py-4 bg-blue-600 rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-white transition-all active:scale-95">New</button>
+            <button onClick={onClose} className="px-6 md:px-10 py-3 md:py-4 glass rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all active:scale-95">Dismiss</button>
+          </div>
+        </div>
+
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search titles and content..."
+          className="w-full bg-white/5 border border-white/10 rounded-2xl md:rounded-3xl px-6 py-4 text-zinc-200 focus:outline-none focus:border-blue-500/40"
+        />
+
+        <div className="space-y-3">
+          {visible.length === 0 && (
+            <div className="h-24 flex items-center justify-center border-2 border-dashed border-white/5 rounded-2xl">
+              <p className="text-[9px] text-zinc-600 font-bold uppercase tracking-widest italic">{docs.length ? 'No matches' : 'Library is empty'}</p>
+            </div>
+          )}
+          {visible.map(doc => {
+            const progress = doc.wordCount > 1 ? Math.round((doc.lastIdx / (doc.wordCount - 1)) * 100) : 0;
+            return (
+              <div key={doc.id} className={`glass p-5 md:p-6 rounded-2xl md:rounded-3xl flex items-center gap-4 ${doc.id === activeId ? 'border-blue-500/40' : ''}`}>
+                <div className="flex-1 min-w-0 space-y-2">
+                  {editingId === doc.id ? (
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={e => setDraftTitle(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={e => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                      className="w-full bg-black border border-white/10 rounded-xl px-3 py-2 font-bold text-zinc-100 outline-none focus:border-blue-500/40"
+                    />
+                  ) : (
+                    <p className="font-bold text-zinc-100 truncate">{doc.title}</p>
+                  )}
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-[9px] font-black uppercase tracking-widest text-zinc-600">
+                    <span className="text-blue-500">{SOURCE_LABELS[doc.source]}</span>
+                    <span>{doc.wordCount} words</span>
+                    <span>{new Date(doc.addedAt).toLocaleDateString()}</span>
+                    {doc.lastIdx > 0 && <span className="text-green-500">{progress}% · cycle {doc.lastLoop}</span>}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button onClick={() => onOpen(doc)} className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-white text-black transition-all active:scale-95">Open</button>
+                  <button onClick={() => onEditQuiz(doc)} className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-pink-400 hover:text-white transition-all active:scale-95">Quiz{doc.questions?.length ? ` (${doc.questions.length})` : ''}</button>
+                  <button onClick={() => { setEditingId(doc.id); setDraftTitle(doc.title); }} className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-zinc-400 hover:text-white transition-all active:scale-95">Rename</button>
+                  <button onClick={() => { if (confirm(`Delete "${doc.title}"?`)) onDelete(doc.id); }} className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-red-400 hover:bg-red-600 hover:text-white transition-all active:scale-95">Delete</button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryPanel;
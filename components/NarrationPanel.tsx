@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { NarrationSettings } from '../types';
+import { listVoices, narrationSupported, narrationWpm, speakSpan } from '../utils/narration';
+import { splitWords } from '../utils/textUtils';
+
+interface NarrationPanelProps {
+  settings: NarrationSettings;
+  // Set when the selected voice reports no word positions and the timer paces the display
+  timerPaced: boolean;
+  onChange: (settings: NarrationSettings) => void;
+}
+
+const PREVIEW_TEXT = 'This is how the narration will sound while you read.';
+const noop = () => {};
+
+const NarrationPanel = ({ settings, timerPaced, onChange }: NarrationPanelProps) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const supported = narrationSupported();
+
+  useEffect(() => { listVoices().then(setVoices); }, []);
+
+  const preview = () => {
+    const words = splitWords(PREVIEW_TEXT);
+    speakSpan(words, { start: 0, end: words.length }, settings, { onWord: noop, onEnd: noop, onNoBoundaries: noop, onError: noop });
+  };
+
+  return (
+    <div className="glass p-8 md:p-10 rounded-[2rem] md:rounded-[2.5rem] space-y-8 border-white/5 md:col-span-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] font-black text-emerald-500 uppercase tracking-[0.3em]">Narration</h3>
+        <button
+          disabled={!supported}
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+          className={`px-6 py-2 rounded-xl text-[9px] font-black uppercase transition-all shadow-xl disabled:opacity-40 ${settings.enabled ? 'bg-emerald-600 text-white' : 'bg-zinc-800 text-zinc-500'}`}
+        >
+          {settings.enabled ? 'Speaking' : 'Silent'}
+        </button>
+      </div>
+
+      {!supported ? (
+        <div className="h-16 flex items-center justify-center border-2 border-dashed border-white/5 rounded-2xl">
+          <p className="text-[9px] text-zinc-600 font-bold uppercase tracking-widest italic text-center">Speech synthesis is not available in this browser</p>
+        </div>
+      ) : settings.enabled ? (
+        <div className="space-y-6">
+          <select
+            value={settings.voiceURI || ''}
+            onChange={e => onChange({ ...settings, voiceURI: e.target.value || null })}
+            className="w-full bg-black border border-white/10 rounded-xl px-4 py-3 text-sm font-bold text-zinc-200 outline-none focus:border-emerald-500/40"
+          >
+            <option value="">Browser default voice</option>
+            {voices.map(v => (
+              <option key={v.voiceURI} value={v.voiceURI}>{v.name} · {v.lang}</option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <p className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Rate</p>
+                <p className="text-xl font-black text-emerald-400 tabular-nums">{settings.rate.toFixed(2)}×</p>
+              </div>
+              <input type="range" min="0.5" max="2" step="0.05" value={settings.rate} onChange={e => onChange({ ...settings, rate: parseFloat(e.target.value) })} />
+            </div>
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <p className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Pitch</p>
+                <p className="text-xl font-black text-emerald-400 tabular-nums">{settings.pitch.toFixed(2)}</p>
+              </div>
+              <input type="range" min="0.5" max="2" step="0.05" value={settings.pitch} onChange={e => onChange({ ...settings, pitch: parseFloat(e.target.value) })} />
+            </div>
+          </div>
+          <div className="flex justify-between items-center gap-4">
+            <p className="text-[8px] text-zinc-600 uppercase font-bold tracking-widest italic">
+              {timerPaced
+                ? 'This voice reports no word positions · the velocity engine paces the display'
+                : `Speech paces the display · about ${narrationWpm(settings)} WPM`}
+            </p>
+            <button onClick={preview} className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-emerald-400 hover:text-white transition-all active:scale-95 shrink-0">Preview</button>
+          </div>
+        </div>
+      ) : (
+        <div className="h-16 flex items-center justify-center border-2 border-dashed border-white/5 rounded-2xl">
+          <p className="text-[9px] text-zinc-600 font-bold uppercase tracking-widest italic text-center">Read along with a synthesized voice</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NarrationPanel;
@@ -0,0 +1,140 @@
+import React, { useState, useMemo } from 'react';
+import { OcrToken } from '../types';
+import { LOW_CONFIDENCE, draftText } from '../utils/ocr';
+import { languageInfo, wordJoiner } from '../utils/language';
+
+interface OcrReviewProps {
+  tokens: OcrToken[];
+  pages: number;
+  language: string;
+  onAddPages: (files: File[]) => void;
+  onDiscard: () => void;
+  onConfirm: (text: string) => void;
+}
+
+// Post-OCR cleanup: uncertain words are highlighted and any word can be corrected or cleared
+// before the scan becomes a document. Corrections are keyed by token id, so they survive
+// more pages being added to the scan.
+const OcrReview = ({ tokens, pages, language, onAddPages, onDiscard, onConfirm }: OcrReviewProps) => {
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const current = useMemo(
+    () => tokens.map(t => (t.id in edits ? { ...t, text: edits[t.id], confidence: 100 } : t)),
+    [tokens, edits]
+  );
+  const suspects = current.filter(t => t.confidence < LOW_CONFIDENCE);
+  const paragraphs = useMemo(() => {
+    const out: OcrToken[][] = [[]];
+    current.forEach(t => {
+      out[out.length - 1].push(t);
+      if (t.breakAfter) out.push([]);
+    });
+    return out.filter(p => p.length);
+  }, [current]);
+  const joiner = wordJoiner(language);
+
+  const startEdit = (t: OcrToken) => {
+    setEditing(t.id);
+    setDraft(t.text);
+  };
+  const commit = () => {
+    if (editing) setEdits(e => ({ ...e, [editing]: draft.trim() }));
+    setEditing(null);
+  };
+  // The word being edited counts as reviewed once the click blurs it
+  const nextSuspect = () => {
+    const next = suspects.find(t => t.id !== editing);
+    if (next) startEdit(next);
+  };
+  const acceptAll = () => setEdits(e => ({ ...e, ...Object.fromEntries(suspects.map(t => [t.id, t.text])) }));
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/98 backdrop-blur-3xl p-6 md:p-20 flex flex-col overflow-y-auto custom-scrollbar">
+      <div className="max-w-4xl mx-auto w-full space-y-8 md:space-y-10">
+        <div className="flex justify-between items-center border-b border-white/10 pb-8 md:pb-10 gap-4">
+          <div className="flex flex-col">
+            <h2 className="text-3xl md:text-6xl font-black italic tracking-tighter uppercase leading-tight">Review Scan</h2>
+            <p className="text-blue-500 text-[10px] font-black uppercase tracking-[0.3em] mt-2">
+              {pages} {pages === 1 ? 'page' : 'pages'} · {suspects.length ? `${suspects.length} uncertain ${suspects.length === 1 ? 'word' : 'words'}` : 'all words checked'}
+            </p>
+          </div>
+          <div className="flex gap-2 md:gap-3 shrink-0">
+            <label className="px-6 md:px-8 py-3 md:py-4 glass rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all active:scale-95 cursor-pointer">
+              Add Pages
+              <input
+                type="file"
+                className="hidden"
+                accept="image/*"
+                multiple
+                onChange={e => {
+                  const files = Array.from<File>(e.target.files || []);
+                  e.target.value = '';
+                  if (files.length) onAddPages(files);
+                }}
+              />
+            </label>
+            <button onClick={onDiscard} className="px-6 md:px-10 py-3 md:py-4 glass rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-red-400 transition-all active:scale-95">Discard</button>
+          </div>
+        </div>
+
+        {suspects.length > 0 && (
+          <div className="flex gap-2">
+            <button onClick={nextSuspect} className="px-5 py-3 bg-amber-500 text-black rounded-xl text-[9px] font-black uppercase tracking-widest transition-all active:scale-95">Next Uncertain</button>
+            <button onClick={acceptAll} className="px-5 py-3 glass rounded-xl text-[9px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all active:scale-95">Accept All</button>
+          </div>
+        )}
+
+        <div
+          lang={language}
+          dir={languageInfo(language).rtl ? 'rtl' : 'ltr'}
+          className="glass rounded-[1.5rem] md:rounded-[2rem] p-6 md:p-8 space-y-5 text-base md:text-lg leading-loose text-start"
+        >
+          {paragraphs.map(para => (
+            <p key={para[0].id}>
+              {para.map(t => (
+                <React.Fragment key={t.id}>
+                  {editing === t.id ? (
+                    <input
+                      autoFocus
+                      value={draft}
+                      onChange={e => setDraft(e.target.value)}
+                      onFocus={e => e.currentTarget.scrollIntoView({ block: 'center', behavior: 'smooth' })}
+                      onBlur={commit}
+                      onKeyDown={e => { if (e.key === 'Enter') commit(); if (e.key === 'Escape') setEditing(null); }}
+                      style={{ width: `${Math.max(3, draft.length + 1)}ch` }}
+                      className="bg-black border border-amber-500/60 rounded px-1 text-white outline-none"
+                    />
+                  ) : (
+                    <span
+                      onClick={() => startEdit(t)}
+                      className={`cursor-pointer rounded px-0.5 transition-colors ${
+                        !t.text ? 'line-through text-zinc-700' :
+                        t.confidence < LOW_CONFIDENCE ? 'bg-amber-500/20 text-amber-300 border-b border-amber-500' :
+                        'text-zinc-300 hover:bg-white/10'
+                      }`}
+                    >
+                      {t.text || tokens.find(o => o.id === t.id)?.text}
+                    </span>
+                  )}
+                  {joiner}
+                </React.Fragment>
+              ))}
+            </p>
+          ))}
+        </div>
+
+        <button
+          onClick={() => onConfirm(draftText(current, language))}
+          className="w-full py-5 md:py-6 bg-white text-black rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-[0.4em] transition-all active:scale-[0.98]"
+        >
+          Send to Content Buffer
+        </button>
+        <p className="text-[9px] text-zinc-600 uppercase font-medium tracking-widest text-center">Tap a word to correct it · clear it to delete · Enter keeps the change</p>
+      </div>
+    </div>
+  );
+};
+
+export default OcrReview;
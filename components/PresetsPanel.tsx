@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { PresetConfig, SessionPreset } from '../types';
+import { LINK_TEXT_LIMIT, LinkContent, buildLink, describePreset, parsePresets, presetsToJson } from '../utils/presets';
+import { downloadFile } from '../utils/download';
+
+interface PresetsPanelProps {
+  presets: SessionPreset[];
+  // Current configurator settings, for saving and for linking without a preset
+  current: PresetConfig;
+  // The open document, which links can carry along
+  content: { text: string; title: string; docId: string | null; language: string };
+  onSave: (name: string) => void;
+  onApply: (preset: SessionPreset) => void;
+  onDelete: (id: string) => void;
+  onImport: (presets: SessionPreset[]) => void;
+}
+
+type Attach = 'none' | 'text' | 'doc';
+
+const ATTACH_LABELS: Record<Attach, string> = { none: 'Settings Only', text: 'With Text', doc: 'Library Ref' };
+
+const PresetsPanel = ({ presets, current, content, onSave, onApply, onDelete, onImport }: PresetsPanelProps) => {
+  const [name, setName] = useState('');
+  const [attach, setAttach] = useState<Attach>('none');
+  const [link, setLink] = useState<{ url: string; copied: boolean } | null>(null);
+  const textTooLong = content.text.length > LINK_TEXT_LIMIT;
+  const available: Record<Attach, boolean> = { none: true, text: !!content.text.trim() && !textTooLong, doc: !!content.docId };
+  const effective = available[attach] ? attach : 'none';
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parsePresets(await file.text()));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name);
+    setName('');
+  };
+
+  const share = async (presetName: string | null, config: PresetConfig) => {
+    const attached: LinkContent =
+      effective === 'text' ? { text: content.text, title: content.title, language: content.language } :
+      effective === 'doc' ? { docId: content.docId! } : {};
+    const url = buildLink(window.location.href, presetName, config, attached);
+    let copied = false;
+    try {
+      await navigator.clipboard.writeText(url);
+      copied = true;
+    } catch { /* clipboard blocked: the link is shown for manual copying */ }
+    setLink({ url, copied });
+  };
+
+  return (
+    <div className="glass p-8 md:p-10 rounded-[2rem] md:rounded-[2.5rem] space-y-8 border-white/5 md:col-span-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] font-black text-cyan-400 uppercase tracking-[0.3em]">Presets & Links</h3>
+        <div className="flex gap-2">
+          <label className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-zinc-500 hover:text-white cursor-pointer transition-all">
+            Import
+            <input type="file" className="hidden" accept=".json,application/json" onChange={importFile} />
+          </label>
+          <button
+            disabled={!presets.length}
+            onClick={() => downloadFile('speed-reader-presets.json', presetsToJson(presets), 'application/json')}
+            className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-zinc-500 hover:text-white disabled:opacity-30 transition-all"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') save(); }}
+          placeholder="Name the current settings"
+          maxLength={60}
+          className="min-w-0 flex-1 bg-black border border-white/10 rounded-xl px-4 py-3 text-sm font-bold text-zinc-200 outline-none focus:border-cyan-500/40"
+        />
+        <button disabled={!name.trim()} onClick={save} className="px-5 rounded-xl text-[9px] font-black uppercase bg-cyan-600 text-white disabled:opacity-40 transition-all active:scale-95">Save</button>
+        <button onClick={() => share(null, current)} className="px-5 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-cyan-400 hover:text-white transition-all active:scale-95">Link</button>
+      </div>
+
+      {presets.length > 0 ? (
+        <div className="space-y-3">
+          {presets.map(p => (
+            <div key={p.id} className="flex items-center gap-4 p-4 rounded-2xl bg-white/5">
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="font-bold text-zinc-100 truncate">{p.name}</p>
+                <p className="text-[9px] font-black text-zinc-600 uppercase tracking-widest">{describePreset(p)}</p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => onApply(p)} className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-cyan-600 text-white transition-all active:scale-95">Apply</button>
+                <button onClick={() => share(p.name, p)} className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-cyan-400 hover:text-white transition-all active:scale-95">Link</button>
+                <button onClick={() => onDelete(p.id)} className="px-3 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-zinc-500 hover:text-red-400 transition-all active:scale-95">✕</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="h-16 flex items-center justify-center border-2 border-dashed border-white/5 rounded-2xl">
+          <p className="text-[9px] text-zinc-600 font-bold uppercase tracking-widest italic text-center">Saved presets appear here</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(ATTACH_LABELS) as Attach[]).map(mode => (
+            <button
+              key={mode}
+              disabled={!available[mode]}
+              onClick={() => setAttach(mode)}
+              className={`py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-30 ${effective === mode ? 'bg-cyan-500 text-black' : 'bg-zinc-800 text-zinc-500 hover:text-white'}`}
+            >
+              {ATTACH_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        <p className="text-[8px] text-zinc-600 uppercase font-bold tracking-widest italic">
+          {textTooLong
+            ? 'This text is too long to fit in a link · share it as a library reference or a file'
+            : 'Links open the reader configured like this · library refs only work where the document exists'}
+        </p>
+        {link && (
+          <div className="space-y-2">
+            <input
+              readOnly
+              value={link.url}
+              onFocus={e => e.currentTarget.select()}
+              className="w-full bg-black border border-white/10 rounded-xl px-4 py-3 text-xs font-mono text-zinc-400 outline-none focus:border-cyan-500/40"
+            />
+            <p className="text-[9px] font-black uppercase tracking-widest text-cyan-400">{link.copied ? 'Copied to clipboard' : 'Copy the link above'}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PresetsPanel;
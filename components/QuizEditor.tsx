@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { LibraryDocument, QuizQuestion } from '../types';
+import { newId } from '../utils/db';
+import { normalizeAnswer, shuffle } from '../utils/quiz';
+
+interface QuizEditorProps {
+  doc: LibraryDocument;
+  onSave: (questions: QuizQuestion[]) => void;
+  onClose: () => void;
+}
+
+// Teacher-authored questions for one library document
+const QuizEditor = ({ doc, onSave, onClose }: QuizEditorProps) => {
+  const [questions, setQuestions] = useState<QuizQuestion[]>(doc.questions || []);
+  const [prompt, setPrompt] = useState('');
+  const [answer, setAnswer] = useState('');
+  const [distractors, setDistractors] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const add = () => {
+    if (!prompt.trim() || !answer.trim()) return;
+    // Choices are compared the way answers are graded, so a duplicate would count as correct twice
+    const seen = new Set<string>();
+    const wrong = distractors.split(',').map(d => d.trim()).filter(d => {
+      const key = normalizeAnswer(d);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (seen.has(normalizeAnswer(answer))) {
+      setError('A wrong choice matches the correct answer');
+      return;
+    }
+    const q: QuizQuestion = {
+      id: newId(),
+      prompt: prompt.trim(),
+      answer: answer.trim(),
+      options: wrong.length ? shuffle([answer.trim(), ...wrong]) : [],
+      source: 'teacher',
+    };
+    setQuestions([...questions, q]);
+    setPrompt('');
+    setAnswer('');
+    setDistractors('');
+    setError(null);
+  };
+
+  const field = "w-full bg-black border border-white/10 rounded-2xl px-5 py-4 text-zinc-200 outline-none focus:border-blue-500/40";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/98 backdrop-blur-3xl p-6 md:p-20 flex flex-col overflow-y-auto custom-scrollbar">
+      <div className="max-w-3xl mx-auto w-full space-y-8 md:space-y-10">
+        <div className="flex justify-between items-center border-b border-white/10 pb-8 md:pb-10 gap-4">
+          <div className="flex flex-col min-w-0">
+            <h2 className="text-3xl md:text-5xl font-black italic tracking-tighter uppercase leading-tight">Quiz Editor</h2>
+            <p className="text-blue-500 text-[10px] font-black uppercase tracking-[0.3em] mt-2 truncate">{doc.title}</p>
+          </div>
+          <div className="flex gap-2 md:gap-3 shrink-0">
+            <button onClick={() => onSave(questions)} className="px-6 md:px-8 py-3 md:py-4 bg-blue-600 rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-white transition-all active:scale-95">Save</button>
+            <button onClick={onClose} className="px-6 md:px-8 py-3 md:py-4 glass rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all active:scale-95">Cancel</button>
+          </div>
+        </div>
+
+        <div className="glass p-6 md:p-8 rounded-[2rem] space-y-4">
+          <textarea value={prompt} onChange={e => setPrompt(e.target.value)} placeholder="Question, or a sentence with ____ for the blank" className={`${field} h-24 resize-none`} />
+          <input value={answer} onChange={e => { setAnswer(e.target.value); setError(null); }} placeholder="Correct answer" className={field} />
+          <input value={distractors} onChange={e => { setDistractors(e.target.value); setError(null); }} placeholder="Wrong choices, comma separated (leave empty for typed answers)" className={field} />
+          {error && <p className="text-[9px] font-black uppercase tracking-widest text-red-400">{error}</p>}
+          <button onClick={add} disabled={!prompt.trim() || !answer.trim()} className="w-full py-4 bg-white text-black rounded-2xl text-[10px] font-black uppercase tracking-widest disabled:opacity-30 transition-all active:scale-[0.98]">Add Question</button>
+        </div>
+
+        <div className="space-y-3">
+          {questions.map((q, i) => (
+            <div key={q.id} className="glass p-5 rounded-2xl flex gap-4 items-start">
+              <span className="text-[10px] font-black text-zinc-600 tabular-nums w-6 shrink-0 pt-1">{i + 1}</span>
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-zinc-100">{q.prompt}</p>
+                <p className="text-[9px] font-black uppercase tracking-widest text-green-500">{q.answer}{q.options.length ? ` · ${q.options.length} choices` : ' · typed'}</p>
+              </div>
+              <button onClick={() => setQuestions(questions.filter(x => x.id !== q.id))} className="px-3 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-red-400 hover:bg-red-600 hover:text-white transition-all">Remove</button>
+            </div>
+          ))}
+          {questions.length === 0 && (
+            <div className="h-20 flex items-center justify-center border-2 border-dashed border-white/5 rounded-2xl">
+              <p className="text-[9px] text-zinc-600 font-bold uppercase tracking-widest italic">No teacher questions — quizzes use generated cloze items</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizEditor;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { QuizQuestion } from '../types';
+import { isCorrect } from '../utils/quiz';
+
+interface QuizModalProps {
+  title: string;
+  questions: QuizQuestion[];
+  wpm: number;
+  onDone: (correct: number, total: number) => void;
+  onSkip: () => void;
+}
+
+const QuizModal = ({ title, questions, wpm, onDone, onSkip }: QuizModalProps) => {
+  const [step, setStep] = useState(0);
+  const [typed, setTyped] = useState('');
+  const [picked, setPicked] = useState<string | null>(null);
+  const [correct, setCorrect] = useState(0);
+
+  const finished = step >= questions.length;
+  const q = questions[step];
+
+  const answer = (response: string) => {
+    if (picked !== null || !response.trim()) return;
+    setPicked(response);
+    if (isCorrect(q, response)) setCorrect(c => c + 1);
+  };
+
+  const advance = () => {
+    setStep(s => s + 1);
+    setPicked(null);
+    setTyped('');
+  };
+
+  const pct = questions.length ? Math.round((correct / questions.length) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/98 backdrop-blur-3xl p-6 md:p-20 flex flex-col overflow-y-auto custom-scrollbar">
+      <div className="max-w-3xl mx-auto w-full space-y-8 md:space-y-10">
+        <div className="flex justify-between items-center border-b border-white/10 pb-8 md:pb-10">
+          <div className="flex flex-col">
+            <h2 className="text-3xl md:text-5xl font-black italic tracking-tighter uppercase leading-tight">{title}</h2>
+            <p className="text-blue-500 text-[10px] font-black uppercase tracking-[0.3em] mt-2">
+              {finished ? 'Results' : `Question ${step + 1} of ${questions.length}`}
+            </p>
+          </div>
+          {!finished && (
+            <button onClick={onSkip} className="px-6 md:px-10 py-3 md:py-4 glass rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all active:scale-95 shrink-0">Skip</button>
+          )}
+        </div>
+
+        {finished ? (
+          <div className="space-y-8">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="glass p-8 rounded-[2rem] text-center space-y-2">
+                <p className="text-[9px] font-black text-zinc-600 uppercase tracking-widest">Comprehension</p>
+                <p className={`text-5xl font-black tabular-nums ${pct >= 70 ? 'text-green-400' : 'text-orange-400'}`}>{correct}/{questions.length}</p>
+              </div>
+              <div className="glass p-8 rounded-[2rem] text-center space-y-2">
+                <p className="text-[9px] font-black text-zinc-600 uppercase tracking-widest">Speed reached</p>
+                <p className="text-5xl font-black tabular-nums text-blue-400">{wpm}<span className="text-xs text-zinc-700 ml-1">WPM</span></p>
+              </div>
+            </div>
+            <button onClick={() => onDone(correct, questions.length)} className="w-full py-6 md:py-8 bg-white text-black font-black rounded-[1.5rem] md:rounded-[2rem] text-xl md:text-2xl uppercase tracking-tighter italic transition-all active:scale-[0.98]">
+              Continue
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <p className="text-xl md:text-2xl leading-relaxed text-zinc-100 font-medium">{q.prompt}</p>
+
+            {q.options.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {q.options.map(opt => {
+                  const state = picked === null ? '' : isCorrect(q, opt) ? 'bg-green-600 text-white' : opt === picked ? 'bg-red-600 text-white' : 'opacity-40';
+                  return (
+                    <button key={opt} onClick={() => answer(opt)} className={`glass p-5 rounded-2xl font-bold text-left transition-all active:scale-[0.98] ${state}`}>{opt}</button>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="flex gap-3">
+                <input
+                  autoFocus
+                  value={typed}
+                  disabled={picked !== null}
+                  onChange={e => setTyped(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') answer(typed); }}
+                  placeholder="Type your answer..."
+                  className="flex-1 bg-white/5 border border-white/10 rounded-2xl px-6 py-4 text-zinc-200 focus:outline-none focus:border-blue-500/40"
+                />
+                <button onClick={() => answer(typed)} disabled={picked !== null} className="px-6 rounded-2xl bg-blue-600 text-[10px] font-black uppercase tracking-widest disabled:opacity-30">Check</button>
+              </div>
+            )}
+
+            {picked !== null && (
+              <div className="flex justify-between items-center gap-4">
+                <p className={`text-[10px] font-black uppercase tracking-widest ${isCorrect(q, picked) ? 'text-green-400' : 'text-red-400'}`}>
+                  {isCorrect(q, picked) ? 'Correct' : `Answer: ${q.answer}`}
+                </p>
+                <button onClick={advance} className="px-8 py-3 bg-white text-black rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95">
+                  {step + 1 < questions.length ? 'Next' : 'Finish'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizModal;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { QuizMode, QuizSettings } from '../types';
+
+interface QuizPanelProps {
+  settings: QuizSettings;
+  onChange: (settings: QuizSettings) => void;
+}
+
+const MODES: { mode: QuizMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'end', label: 'After Session' },
+  { mode: 'sections', label: 'Each Section' },
+];
+
+const QuizPanel = ({ settings, onChange }: QuizPanelProps) => (
+  <div className="glass p-8 md:p-10 rounded-[2rem] md:rounded-[2.5rem] space-y-8 border-white/5 md:col-span-2">
+    <div className="flex justify-between items-center">
+      <h3 className="text-[10px] font-black text-pink-500 uppercase tracking-[0.3em]">Comprehension Check</h3>
+      <div className="flex gap-2">
+        {MODES.map(m => (
+          <button
+            key={m.mode}
+            onClick={() => onChange({ ...settings, mode: m.mode })}
+            className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase transition-all ${settings.mode === m.mode ? 'bg-pink-600 text-white shadow-xl' : 'bg-zinc-800 text-zinc-500'}`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+    </div>
+    {settings.mode !== 'off' && (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <p className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Questions per check</p>
+          <p className="text-2xl font-black text-pink-400">{settings.count}</p>
+        </div>
+        <input type="range" min="1" max="10" step="1" value={settings.count} onChange={e => onChange({ ...settings, count: parseInt(e.target.value) })} />
+        <p className="text-[8px] text-zinc-600 uppercase font-bold tracking-widest text-center italic">Fill-in-the-blank questions are built offline from key sentences; teacher questions come first</p>
+      </div>
+    )}
+  </div>
+);
+
+export default QuizPanel;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { DocModel } from '../types';
+import { prevSpanStart, nextSpanStart } from '../utils/textUtils';
+
+interface ReaderNavigationProps {
+  doc: DocModel;
+  idx: number;
+  onSeek: (idx: number) => void;
+}
+
+const NavButton = ({ label, title, onClick }: { label: string; title: string; onClick: () => void }) => (
+  <button
+    title={title}
+    onClick={onClick}
+    className="w-10 h-8 md:w-12 md:h-9 glass rounded-xl text-[10px] font-black text-zinc-500 hover:text-white transition-all active:scale-95"
+  >
+    {label}
+  </button>
+);
+
+// Progress track with section markers (click to seek) plus sentence / paragraph / section stepping.
+// Clicks are stopped here so they do not toggle playback on the reader core.
+const ReaderNavigation = ({ doc, idx, onSeek }: ReaderNavigationProps) => {
+  const total = doc.words.length;
+
+  const seekTrack = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const frac = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    onSeek(Math.min(total - 1, Math.round(frac * (total - 1))));
+  };
+
+  return (
+    <div className="mt-16 md:mt-20 w-full max-w-xl flex flex-col items-center gap-5" onClick={e => e.stopPropagation()}>
+      <div className="w-full py-3 cursor-pointer group" onClick={seekTrack}>
+        <div className="w-full h-1 group-hover:h-1.5 bg-zinc-900 rounded-full border border-white/5 relative transition-all">
+          <div className="h-full bg-blue-500 rounded-full transition-all duration-300" style={{ width: `${(idx / Math.max(1, total)) * 100}%` }} />
+          {doc.sections.slice(1).map(sec => (
+            <div key={sec.start} title={sec.title} className="absolute -top-1 -bottom-1 w-0.5 bg-zinc-500 rounded-full" style={{ left: `${(sec.start / total) * 100}%` }} />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2 opacity-60 hover:opacity-100 transition-opacity">
+        <NavButton label="«§" title="Previous section" onClick={() => onSeek(prevSpanStart(doc.sections, idx))} />
+        <NavButton label="«¶" title="Previous paragraph" onClick={() => onSeek(prevSpanStart(doc.paragraphs, idx))} />
+        <NavButton label="‹" title="Previous sentence" onClick={() => onSeek(prevSpanStart(doc.sentences, idx))} />
+        <NavButton label="›" title="Next sentence" onClick={() => onSeek(nextSpanStart(doc.sentences, idx))} />
+        <NavButton label="¶»" title="Next paragraph" onClick={() => onSeek(nextSpanStart(doc.paragraphs, idx))} />
+        <NavButton label="§»" title="Next section" onClick={() => onSeek(nextSpanStart(doc.sections, idx))} />
+      </div>
+    </div>
+  );
+};
+
+export default ReaderNavigation;
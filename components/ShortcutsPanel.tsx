@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { ShortcutAction, ShortcutBindings } from '../types';
+import { SHORTCUT_LABELS, DEFAULT_BINDINGS, comboFromEvent, formatCombo, rebind } from '../utils/shortcuts';
+
+interface ShortcutsPanelProps {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+}
+
+const ShortcutsPanel = ({ bindings, onChange }: ShortcutsPanelProps) => {
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+
+  // While capturing, swallow the next key press before the reader's own shortcut handler sees it
+  useEffect(() => {
+    if (!capturing) return;
+    const onKey = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      // Escape backs out of capturing rather than becoming a binding (it opens settings by default)
+      if (combo === 'Backspace' || combo === 'Delete') onChange({ ...bindings, [capturing]: '' });
+      else if (combo !== 'Escape') onChange(rebind(bindings, capturing, combo));
+      setCapturing(null);
+    };
+    window.addEventListener('keydown', onKey, true);
+    return () => window.removeEventListener('keydown', onKey, true);
+  }, [capturing, bindings, onChange]);
+
+  return (
+    <div className="glass p-8 md:p-10 rounded-[2rem] md:rounded-[2.5rem] space-y-8 border-white/5 md:col-span-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] font-black text-yellow-500 uppercase tracking-[0.3em]">Key Bindings</h3>
+        <button onClick={() => onChange(DEFAULT_BINDINGS)} className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-zinc-500 hover:text-white transition-all">Reset</button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+        {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map(action => (
+          <div key={action} className="flex justify-between items-center gap-4">
+            <p className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{SHORTCUT_LABELS[action]}</p>
+            <button
+              onClick={() => setCapturing(capturing === action ? null : action)}
+              className={`min-w-[6rem] px-3 py-2 rounded-xl text-[10px] font-black transition-all ${capturing === action ? 'bg-yellow-500 text-black animate-pulse-soft' : bindings[action] ? 'bg-white/10 text-zinc-200' : 'bg-zinc-900 text-zinc-600'}`}
+            >
+              {capturing === action ? 'Press key…' : formatCombo(bindings[action])}
+            </button>
+          </div>
+        ))}
+      </div>
+      <p className="text-[8px] text-zinc-600 uppercase font-bold tracking-widest text-center italic">Click a binding, then press the new key · Backspace clears · Esc cancels · Headset and lock-screen controls follow play, pause and seek</p>
+    </div>
+  );
+};
+
+export default ShortcutsPanel;
@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ReadingSession } from '../types';
+import { listSessions, summarizeSessions, sessionsToCsv, sessionsToJson, DailyStat } from '../utils/sessions';
+import { downloadFile } from '../utils/download';
+
+interface StatsDashboardProps {
+  onClose: () => void;
+}
+
+const Tile = ({ label, value, accent }: { label: string; value: string | number; accent: string }) => (
+  <div className="glass p-6 rounded-2xl md:rounded-3xl space-y-2">
+    <p className="text-[9px] font-black text-zinc-600 uppercase tracking-widest">{label}</p>
+    <p className={`text-2xl md:text-3xl font-black tabular-nums ${accent}`}>{value}</p>
+  </div>
+);
+
+// Daily average WPM as a simple line chart over the most recent reading days
+const WpmChart = ({ daily }: { daily: DailyStat[] }) => {
+  const points = daily.slice(-30);
+  if (points.length < 2) {
+    return (
+      <div className="h-40 flex items-center justify-center border-2 border-dashed border-white/5 rounded-2xl">
+        <p className="text-[9px] text-zinc-600 font-bold uppercase tracking-widest italic">Read on two or more days to see progression</p>
+      </div>
+    );
+  }
+  const W = 600, H = 160, PAD = 10;
+  const max = Math.max(...points.map(p => Math.max(p.avgWpm, p.peakWpm)));
+  const x = (i: number) => PAD + (i / (points.length - 1)) * (W - PAD * 2);
+  const y = (v: number) => H - PAD - (v / Math.max(1, max)) * (H - PAD * 2);
+  const line = (key: 'avgWpm' | 'peakWpm') => points.map((p, i) => `${i ? 'L' : 'M'}${x(i).toFixed(1)},${y(p[key]).toFixed(1)}`).join(' ');
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-40">
+        <path d={line('peakWpm')} fill="none" stroke="#f97316" strokeOpacity="0.4" strokeWidth="2" strokeDasharray="4 4" />
+        <path d={line('avgWpm')} fill="none" stroke="#3b82f6" strokeWidth="3" />
+        {points.map((p, i) => <circle key={p.day} cx={x(i)} cy={y(p.avgWpm)} r="4" fill="#3b82f6"><title>{`${p.day}: ${p.avgWpm} WPM avg, ${p.words} words`}</title></circle>)}
+      </svg>
+      <div className="flex justify-between text-[8px] font-black uppercase tracking-widest text-zinc-600">
+        <span>{points[0].day}</span>
+        <span><span className="text-blue-500">Avg</span> · <span className="text-orange-500">Peak</span> · max {max} WPM</span>
+        <span>{points[points.length - 1].day}</span>
+      </div>
+    </div>
+  );
+};
+
+const StatsDashboard = ({ onClose }: StatsDashboardProps) => {
+  const [sessions, setSessions] = useState<ReadingSession[]>([]);
+
+  useEffect(() => {
+    listSessions().then(setSessions).catch(err => console.error('Session log unavailable', err));
+  }, []);
+
+  const summary = useMemo(() => summarizeSessions(sessions), [sessions]);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/98 backdrop-blur-3xl p-6 md:p-20 flex flex-col overflow-y-auto custom-scrollbar">
+      <div className="max-w-4xl mx-auto w-full space-y-8 md:space-y-10">
+        <div className="flex justify-between items-center border-b border-white/10 pb-8 md:pb-10">
+          <div className="flex flex-col">
+            <h2 className="text-3xl md:text-6xl font-black italic tracking-tighter uppercase leading-tight">Progress</h2>
+            <p className="text-blue-500 text-[10px] font-black uppercase tracking-[0.3em] mt-2">{sessions.length} sessions logged</p>
+          </div>
+          <div className="flex gap-2 md:gap-3 shrink-0">
+            <button disabled={!sessions.length} onClick={() => downloadFile(`speed-reader-sessions-${stamp}.csv`, sessionsToCsv(sessions), 'text/csv')} className="px-4 md:px-6 py-3 md:py-4 glass rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-all active:scale-95">CSV</button>
+            <button disabled={!sessions.length} onClick={() => downloadFile(`speed-reader-sessions-${stamp}.json`, sessionsToJson(sessions), 'application/json')} className="px-4 md:px-6 py-3 md:py-4 glass rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-30 transition-all active:scale-95">JSON</button>
+            <button onClick={onClose} className="px-6 md:px-10 py-3 md:py-4 glass rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all active:scale-95">Dismiss</button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4">
+          <Tile label="Words read" value={summary.totalWords.toLocaleString()} accent="text-blue-400" />
+          <Tile label="Average WPM" value={summary.avgWpm} accent="text-orange-400" />
+          <Tile label="Current streak" value={`${summary.currentStreak}d`} accent="text-green-400" />
+          <Tile label="Longest streak" value={`${summary.longestStreak}d`} accent="text-green-400" />
+        </div>
+
+        <div className="glass p-8 md:p-10 rounded-[2rem] md:rounded-[2.5rem] space-y-6 border-white/5">
+          <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-[0.3em]">WPM Progression</h3>
+          <WpmChart daily={summary.daily} />
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-[10px] font-black text-green-500 uppercase tracking-[0.3em] ml-2">Per Document</h3>
+          {summary.documents.map(d => (
+            <div key={d.docId || d.title} className="glass p-5 md:p-6 rounded-2xl md:rounded-3xl flex items-center gap-4">
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="font-bold text-zinc-100 truncate">{d.title}</p>
+                <p className="text-[9px] font-black uppercase tracking-widest text-zinc-600">Last read {new Date(d.lastAt).toLocaleDateString()}</p>
+              </div>
+              <div className="flex gap-6 text-right shrink-0">
+                <div><p className="text-[8px] font-black uppercase tracking-widest text-zinc-600">Sessions</p><p className="font-black tabular-nums">{d.sessions}</p></div>
+                <div><p className="text-[8px] font-black uppercase tracking-widest text-zinc-600">Words</p><p className="font-black tabular-nums">{d.words.toLocaleString()}</p></div>
+                <div><p className="text-[8px] font-black uppercase tracking-widest text-zinc-600">Best</p><p className="font-black tabular-nums text-orange-400">{d.bestWpm}</p></div>
+              </div>
+            </div>
+          ))}
+          {summary.documents.length === 0 && (
+            <div className="h-24 flex items-center justify-center border-2 border-dashed border-white/5 rounded-2xl">
+              <p className="text-[9px] text-zinc-600 font-bold uppercase tracking-widest italic">No sessions yet</p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-[10px] font-black text-orange-500 uppercase tracking-[0.3em] ml-2">Recent Sessions</h3>
+          {sessions.slice(-20).reverse().map(s => (
+            <div key={s.id} className="flex flex-wrap gap-x-5 gap-y-1 px-5 py-3 border-b border-white/5 text-[10px] font-bold uppercase tracking-widest text-zinc-500">
+              <span className="text-zinc-300 normal-case tracking-normal truncate max-w-[14rem]">{s.docTitle}</span>
+              <span>{new Date(s.startedAt).toLocaleString()}</span>
+              <span>{s.wordsRead} words</span>
+              <span className="text-blue-400">{s.avgWpm} avg</span>
+              <span className="text-orange-400">{s.peakWpm} peak</span>
+              {s.quizTotal > 0 && <span className="text-pink-400">quiz {s.quizCorrect}/{s.quizTotal}</span>}
+              <span>{s.pauses} pauses</span>
+              <span>{s.rewinds} rewinds</span>
+              <span>{s.loopsCompleted} loops</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { TimingMultipliers, TimingPreset, TimingSettings } from '../types';
+import { TIMING_PRESETS } from '../utils/timing';
+
+interface TimingPanelProps {
+  settings: TimingSettings;
+  onChange: (settings: TimingSettings) => void;
+}
+
+const FIELDS: { key: keyof TimingMultipliers; label: string; min: number; max: number; step: number }[] = [
+  { key: 'sentenceEnd', label: 'Sentence end', min: 1, max: 4, step: 0.1 },
+  { key: 'clauseEnd', label: 'Comma / clause', min: 1, max: 3, step: 0.1 },
+  { key: 'paragraphEnd', label: 'Paragraph break', min: 1, max: 4, step: 0.1 },
+  { key: 'longWord', label: 'Per extra letter', min: 0, max: 0.2, step: 0.01 },
+  { key: 'shortWord', label: 'Short word', min: 0.5, max: 1.5, step: 0.05 },
+  { key: 'number', label: 'Number', min: 1, max: 3, step: 0.1 },
+  { key: 'hyphenated', label: 'Hyphenated', min: 1, max: 2.5, step: 0.05 },
+  { key: 'acronym', label: 'Acronym', min: 1, max: 2.5, step: 0.05 },
+  { key: 'quote', label: 'Quotation', min: 1, max: 2, step: 0.05 },
+];
+
+const PRESETS: TimingPreset[] = ['classic', 'adaptive', 'custom'];
+
+const TimingPanel = ({ settings, onChange }: TimingPanelProps) => {
+  const pickPreset = (preset: TimingPreset) => {
+    if (preset === 'custom') onChange({ ...settings, preset });
+    else onChange({ preset, multipliers: TIMING_PRESETS[preset] });
+  };
+
+  const setField = (key: keyof TimingMultipliers, value: number) =>
+    onChange({ preset: 'custom', multipliers: { ...settings.multipliers, [key]: value } });
+
+  return (
+    <div className="glass p-8 md:p-10 rounded-[2rem] md:rounded-[2.5rem] space-y-8 border-white/5 md:col-span-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] font-black text-purple-500 uppercase tracking-[0.3em]">Rhythm Model</h3>
+        <div className="flex gap-2">
+          {PRESETS.map(preset => (
+            <button
+              key={preset}
+              onClick={() => pickPreset(preset)}
+              className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase transition-all ${settings.preset === preset ? 'bg-purple-600 text-white shadow-xl' : 'bg-zinc-800 text-zinc-500'}`}
+            >
+              {preset}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-8 gap-y-6">
+        {FIELDS.map(f => (
+          <div key={f.key} className="space-y-3">
+            <div className="flex justify-between items-center">
+              <p className="text-[9px] font-black text-zinc-500 uppercase tracking-widest">{f.label}</p>
+              <p className="text-xs font-black text-purple-400 tabular-nums">{f.key === 'longWord' ? '+' : '×'}{settings.multipliers[f.key].toFixed(2)}</p>
+            </div>
+            <input type="range" min={f.min} max={f.max} step={f.step} value={settings.multipliers[f.key]} onChange={e => setField(f.key, parseFloat(e.target.value))} />
+          </div>
+        ))}
+      </div>
+      <p className="text-[8px] text-zinc-600 uppercase font-bold tracking-widest text-center italic">Pauses are rebalanced so the average speed still matches the selected WPM</p>
+    </div>
+  );
+};
+
+export default TimingPanel;
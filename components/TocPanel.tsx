@@ -0,0 +1,45 @@
+import React from 'react';
+import { DocSection } from '../types';
+
+interface TocPanelProps {
+  sections: DocSection[];
+  idx: number;
+  totalWords: number;
+  onJump: (idx: number) => void;
+  onClose: () => void;
+}
+
+const TocPanel = ({ sections, idx, totalWords, onJump, onClose }: TocPanelProps) => (
+  <div className="fixed inset-0 z-50 bg-black/98 backdrop-blur-3xl p-6 md:p-20 flex flex-col overflow-y-auto custom-scrollbar">
+    <div className="max-w-4xl mx-auto w-full space-y-8 md:space-y-10">
+      <div className="flex justify-between items-center border-b border-white/10 pb-8 md:pb-10">
+        <div className="flex flex-col">
+          <h2 className="text-3xl md:text-6xl font-black italic tracking-tighter uppercase leading-tight">Contents</h2>
+          <p className="text-blue-500 text-[10px] font-black uppercase tracking-[0.3em] mt-2">{sections.length} {sections.length === 1 ? 'section' : 'sections'} · {totalWords} words</p>
+        </div>
+        <button onClick={onClose} className="px-6 md:px-10 py-3 md:py-4 glass rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all active:scale-95 shrink-0">Dismiss</button>
+      </div>
+
+      <div className="space-y-3">
+        {sections.map((sec, i) => {
+          const active = idx >= sec.start && idx < sec.end;
+          const done = idx >= sec.end;
+          const progress = active ? Math.round(((idx - sec.start) / Math.max(1, sec.end - sec.start)) * 100) : done ? 100 : 0;
+          return (
+            <button
+              key={sec.start}
+              onClick={() => onJump(sec.start)}
+              className={`w-full glass p-5 md:p-6 rounded-2xl md:rounded-3xl flex items-center gap-4 text-left hover:bg-white/10 transition-all active:scale-[0.99] ${active ? 'border-blue-500/40' : ''}`}
+            >
+              <span className="text-[10px] font-black text-zinc-600 tabular-nums w-8 shrink-0">{String(i + 1).padStart(2, '0')}</span>
+              <span className={`flex-1 font-bold truncate ${active ? 'text-blue-400' : 'text-zinc-100'}`}>{sec.title || (i === 0 ? 'Opening' : `Section ${i + 1}`)}</span>
+              <span className="text-[9px] font-black uppercase tracking-widest text-zinc-600 shrink-0">{sec.end - sec.start} words{progress > 0 ? ` · ${progress}%` : ''}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  </div>
+);
+
+export default TocPanel;
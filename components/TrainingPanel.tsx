@@ -0,0 +1,113 @@
+import React from 'react';
+import { TrainingEnrollment, TrainingProgram, SpeedCurve } from '../types';
+import { curveWpm, describeCurve, isDayLocked, parseProgram, scaledDay } from '../utils/training';
+
+interface TrainingPanelProps {
+  programs: TrainingProgram[];
+  enrollment: TrainingEnrollment | null;
+  onEnroll: (program: TrainingProgram) => void;
+  onLeave: () => void;
+  onStart: () => void;
+  onImport: (program: TrainingProgram) => void;
+}
+
+const CurvePreview = ({ curve }: { curve: SpeedCurve }) => {
+  const W = 300, H = 60;
+  const samples = Array.from({ length: 61 }, (_, i) => curveWpm(curve, i / 60));
+  const max = Math.max(...samples), min = Math.min(...samples);
+  const y = (v: number) => H - 4 - ((v - min) / Math.max(1, max - min)) * (H - 8);
+  const d = samples.map((v, i) => `${i ? 'L' : 'M'}${(i / 60) * W},${y(v).toFixed(1)}`).join(' ');
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-16">
+      <path d={d} fill="none" stroke="#f97316" strokeWidth="3" strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+const TrainingPanel = ({ programs, enrollment, onEnroll, onLeave, onStart, onImport }: TrainingPanelProps) => {
+  const program = enrollment ? programs.find(p => p.id === enrollment.programId) : undefined;
+  const day = program && enrollment ? scaledDay(program, enrollment) : null;
+  const locked = enrollment ? isDayLocked(enrollment) : false;
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseProgram(await file.text()));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="glass p-8 md:p-10 rounded-[2rem] md:rounded-[2.5rem] space-y-8 border-white/5 md:col-span-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] font-black text-orange-500 uppercase tracking-[0.3em]">Training Program</h3>
+        <div className="flex gap-2">
+          <label className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-zinc-500 hover:text-white cursor-pointer transition-all">
+            Import JSON
+            <input type="file" className="hidden" accept=".json,application/json" onChange={importFile} />
+          </label>
+          {enrollment && (
+            <button onClick={onLeave} className="px-4 py-2 rounded-xl text-[9px] font-black uppercase bg-zinc-800 text-red-400 hover:text-white transition-all">Leave</button>
+          )}
+        </div>
+      </div>
+
+      {!enrollment || !program ? (
+        <div className="space-y-3">
+          {programs.map(p => (
+            <div key={p.id} className="flex items-center gap-4 p-4 rounded-2xl bg-white/5">
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="font-bold text-zinc-100">{p.name} <span className="text-[9px] font-black text-zinc-600 uppercase tracking-widest ml-2">{p.days.length} days</span></p>
+                {p.description && <p className="text-xs text-zinc-500">{p.description}</p>}
+              </div>
+              <button onClick={() => onEnroll(p)} className="px-5 py-2 rounded-xl text-[9px] font-black uppercase bg-orange-600 text-white transition-all active:scale-95 shrink-0">Enroll</button>
+            </div>
+          ))}
+        </div>
+      ) : !day ? (
+        <div className="text-center space-y-2 py-6">
+          <p className="text-2xl font-black text-green-400 uppercase italic">Program Complete</p>
+          <p className="text-[9px] font-black text-zinc-600 uppercase tracking-widest">{program.name} · final speed factor {Math.round(enrollment.adjustment * 100)}%</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex justify-between items-end">
+            <div>
+              <p className="font-bold text-zinc-100">{program.name}</p>
+              <p className="text-[9px] font-black text-zinc-600 uppercase tracking-widest">Speed factor {Math.round(enrollment.adjustment * 100)}%</p>
+            </div>
+            <p className="text-2xl font-black text-orange-400 tabular-nums">Day {enrollment.dayIndex + 1}<span className="text-xs text-zinc-700 ml-1">/ {program.days.length}</span></p>
+          </div>
+          <CurvePreview curve={day.curve} />
+          <div className="flex flex-wrap justify-between gap-2 text-[9px] font-black uppercase tracking-widest text-zinc-500">
+            <span>{describeCurve(day.curve)}</span>
+            <span>{day.loops} {day.loops === 1 ? 'loop' : 'loops'} · {day.words ? `${day.words} words` : 'whole text'}</span>
+          </div>
+          <button
+            onClick={onStart}
+            disabled={locked}
+            className="w-full py-4 rounded-2xl bg-orange-600 text-white text-[10px] font-black uppercase tracking-[0.3em] disabled:bg-zinc-800 disabled:text-zinc-500 transition-all active:scale-[0.98]"
+          >
+            {locked ? 'Done for today · next day unlocks tomorrow' : `Start Day ${enrollment.dayIndex + 1}`}
+          </button>
+        </div>
+      )}
+
+      {enrollment && enrollment.history.length > 0 && (
+        <div className="space-y-1">
+          {enrollment.history.slice(-5).reverse().map(h => (
+            <div key={h.day} className="flex justify-between text-[9px] font-black uppercase tracking-widest text-zinc-600">
+              <span>Day {h.day} · {h.date}</span>
+              <span className="text-blue-400">{h.avgWpm} WPM{h.quiz !== null ? ` · quiz ${Math.round(h.quiz * 100)}%` : ''}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrainingPanel;
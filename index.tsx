@@ -1,35 +1,120 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
+import { LibraryDocument, ImportedText, TimingSettings, ChunkSettings, ReadingSession, QuizSettings, QuizQuestion, Span, ShortcutAction, ShortcutBindings, TrainingProgram, TrainingEnrollment, NarrationSettings, AudioAlignment, OcrPage, ClassroomSettings, ClassroomSession, ClassroomTransport, ClassroomMessage, ClassroomContent, ClassroomState, ReaderSettings, PresetConfig, SessionPreset, SessionLink } from './types';
+import { parseDocument, getParts, spanIndexAt, deriveTitle, prevSpanStart, nextSpanStart } from './utils/textUtils';
+import { listDocuments, getDocument, createDocument, updateDocument, deleteDocument, migrateLegacyText, documentLanguage, keepUnsavedText, unsavedText } from './utils/library';
+import { importFile, IMPORT_ACCEPT } from './utils/importers';
+import { DEFAULT_TIMING, createMultiplierModel, buildTimingWeights } from './utils/timing';
+import { DEFAULT_CHUNK, buildUnits, unitText } from './utils/chunking';
+import { startSession, recordUnit, finishSession, saveSession, addQuizResult } from './utils/sessions';
+import { DEFAULT_QUIZ, buildQuiz } from './utils/quiz';
+import { BUILT_IN_PROGRAMS, curveWpm, scaledDay, enroll, completeDay, trainingSpan, isDayLocked } from './utils/training';
+import { DEFAULT_NARRATION, narrationSupported, narrationWpm, speakSpan } from './utils/narration';
+import { parseTimingMap, wordAtTime } from './utils/alignment';
+import { DEFAULT_LANGUAGE, LANGUAGES, languageInfo, wordJoiner, textWidth } from './utils/language';
+import { recognizePages, buildDraft, ScanStage } from './utils/ocr';
+import { DEFAULT_CLASSROOM, newRoomCode, openTransport, createClockSync } from './utils/classroom';
+import { newId } from './utils/db';
+import { DEFAULT_READER, WPM_RANGE, createPreset, parseLink, sanitizeBindings, sanitizeChunk, sanitizeQuiz, sanitizeReader } from './utils/presets';
+import { DEFAULT_BINDINGS, comboFromEvent, actionForCombo, isTypingTarget } from './utils/shortcuts';
+import LibraryPanel from './components/LibraryPanel';
+import ChapterPicker from './components/ChapterPicker';
+import TocPanel from './components/TocPanel';
+import ReaderNavigation from './components/ReaderNavigation';
+import ContextView from './components/ContextView';
+import TimingPanel from './components/TimingPanel';
+import ChunkPanel from './components/ChunkPanel';
+import StatsDashboard from './components/StatsDashboard';
+import QuizModal from './components/QuizModal';
+import QuizEditor from './components/QuizEditor';
+import QuizPanel from './components/QuizPanel';
+import ShortcutsPanel from './components/ShortcutsPanel';
+import TrainingPanel from './components/TrainingPanel';
+import NarrationPanel from './components/NarrationPanel';
+import AudiobookPanel from './components/AudiobookPanel';
+import OcrReview from './components/OcrReview';
+import ClassroomPanel from './components/ClassroomPanel';
+import PresetsPanel from './components/PresetsPanel';
 
-// Helper: Optimal Recognition Point calculation for RSVP (Rapid Serial Visual Presentation)
-const getParts = (w: string) => {
-  if (!w) return { pre: '', p: '', suf: '' };
-  const len = w.length;
-  let pos = Math.floor(len / 2.5);
-  if (len <= 1) pos = 0;
-  else if (len <= 5) pos = 1;
-  return { pre: w.slice(0, pos), p: w.slice(pos, pos + 1), suf: w.slice(pos + 1) };
+const WELCOME_TEXT = "Welcome to Speed Reader. This application, brought to you by Tim the Teacher, is designed to enhance your reading efficiency. Paste your content here to begin. Use the loop settings to repeat the text as many times as you like. Adjust the WPM to find your perfect reading flow.";
+const ACTIVE_DOC_KEY = 'sr_doc';
+const WPM_STEP = 25;
+const clampWpm = (v: number) => Math.min(Math.max(v, WPM_RANGE[0]), WPM_RANGE[1]);
+const SCAN_STAGES: Record<ScanStage, string> = {
+  loading: 'Loading OCR model',
+  preparing: 'Cleaning up image',
+  recognizing: 'Reading text',
+};
+// Holding these keys down auto-repeats; toggles fire once per press
+const REPEATABLE_ACTIONS = new Set<ShortcutAction>(['prevWord', 'nextWord', 'speedUp', 'speedDown']);
+// Classroom heartbeats: students ping, the host re-sends its position and drops silent students
+const CLASS_PING_MS = 3000;
+const CLASS_HEARTBEAT_MS = 2000;
+const CLASS_STUDENT_TIMEOUT_MS = 10000;
+// A student's unit may start this far from the host's before its timer is corrected
+const CLASS_DRIFT_MS = 60;
+
+const loadTiming = (): TimingSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem('sr_timing') || 'null');
+    if (saved?.preset && saved.multipliers) return { preset: saved.preset, multipliers: { ...DEFAULT_TIMING.multipliers, ...saved.multipliers } };
+  } catch { /* fall through to default */ }
+  return DEFAULT_TIMING;
+};
+
+// Flat settings objects persisted as JSON, merged over defaults so new fields pick up sane values
+const loadSetting = <T extends object>(key: string, fallback: T): T => {
+  try {
+    return { ...fallback, ...JSON.parse(localStorage.getItem(key) || '{}') };
+  } catch {
+    return fallback;
+  }
+};
+
+const loadJson = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
 };
 
 const App = () => {
   // --- PERSISTENCE & SETTINGS ---
-  const [text, setText] = useState(() => localStorage.getItem('sr_text') || "Welcome to Speed Reader. This application, brought to you by Tim the Teacher, is designed to enhance your reading efficiency. Paste your content here to begin. Use the loop settings to repeat the text as many times as you like. Adjust the WPM to find your perfect reading flow.");
-  const [wpm, setWpm] = useState(350);
-  const [fontSize, setFontSize] = useState(80); // Default, will be auto-calculated
-  const [autoFontSize, setAutoFontSize] = useState(true);
+  const [text, setText] = useState(WELCOME_TEXT);
+  // Language of the active document; also the OCR language for the next scan
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE);
+  const [storedReader] = useState<ReaderSettings>(() => sanitizeReader(loadSetting('sr_reader', DEFAULT_READER)));
+  const [wpm, setWpm] = useState(storedReader.wpm);
+  const [fontSize, setFontSize] = useState(storedReader.fontSize); // Recalculated while auto-fit is on
+  const [autoFontSize, setAutoFontSize] = useState(storedReader.autoFontSize);
   const [volume, setVolume] = useState(() => parseFloat(localStorage.getItem('sr_vol') || '0.7'));
-  const [isRamping, setIsRamping] = useState(false);
-  const [startWpm, setStartWpm] = useState(250);
-  const [endWpm, setEndWpm] = useState(700);
+  const [isRamping, setIsRamping] = useState(storedReader.isRamping);
+  const [timing, setTiming] = useState<TimingSettings>(loadTiming);
+  const [chunk, setChunk] = useState<ChunkSettings>(() => sanitizeChunk(loadSetting('sr_chunk', DEFAULT_CHUNK)));
+  const [bindings, setBindings] = useState<ShortcutBindings>(() => sanitizeBindings(loadSetting('sr_keys', DEFAULT_BINDINGS)));
+  const [quizSettings, setQuizSettings] = useState<QuizSettings>(() => sanitizeQuiz(loadSetting('sr_quiz', DEFAULT_QUIZ)));
+  const [contextMode, setContextMode] = useState(() => localStorage.getItem('sr_context') !== '0');
+  const [startWpm, setStartWpm] = useState(storedReader.startWpm);
+  const [endWpm, setEndWpm] = useState(storedReader.endWpm);
   
   // --- LOOP STATE ---
-  const [loopEnabled, setLoopEnabled] = useState(false);
-  const [loopMax, setLoopMax] = useState(3); // 0 for infinite
+  const [loopEnabled, setLoopEnabled] = useState(storedReader.loopEnabled);
+  const [loopMax, setLoopMax] = useState(storedReader.loopMax); // 0 for infinite
   const [currentLoop, setCurrentLoop] = useState(1);
 
   // --- AUDIO & ASSETS ---
   const [audioName, setAudioName] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Word timings for the loaded recording; with both present the audio paces the display
+  const [alignment, setAlignment] = useState<AudioAlignment | null>(null);
+  const [alignmentError, setAlignmentError] = useState<string | null>(null);
+  // Word the audio was last synced to, so the two don't chase each other's seeks
+  const audioIdx = useRef(-1);
+  const audioSeeking = useRef(false);
+  // The alignment while it is actually driving playback, for callbacks outside render
+  const alignmentRef = useRef<AudioAlignment | null>(null);
 
   // --- RUNTIME STATE ---
   const [playing, setPlaying] = useState(false);
@@ -37,26 +122,332 @@ const App = () => {
   const [showSettings, setShowSettings] = useState(true);
   const [isScanning, setIsScanning] = useState(false);
   const [scanProgress, setScanProgress] = useState(0);
+  const [scanStatus, setScanStatus] = useState('');
+  const [scanError, setScanError] = useState<string | null>(null);
+  // Recognized pages awaiting review; null when no scan is in progress
+  const [scanPages, setScanPages] = useState<OcrPage[] | null>(null);
+  const scanAbort = useRef<AbortController | null>(null);
+
+  // --- LIBRARY ---
+  const [docs, setDocs] = useState<LibraryDocument[]>([]);
+  const [docId, setDocId] = useState<string | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [pendingBook, setPendingBook] = useState<ImportedText | null>(null);
+  const [showToc, setShowToc] = useState(false);
+
+  // --- PRESETS ---
+  const [presets, setPresets] = useState<SessionPreset[]>(() => loadJson('sr_presets', []));
+  // Parts of the last opened link that were invalid or couldn't be found
+  const [linkNotice, setLinkNotice] = useState<string | null>(null);
 
-  const words = useMemo(() => text.trim().replace(/[\r\n]+/g, ' ').split(/\s+/), [text]);
+  // --- ANALYTICS ---
+  const [showStats, setShowStats] = useState(false);
+  const session = useRef<ReadingSession | null>(null);
+
+  // --- QUIZ ---
+  // sessionId is set once the session has already been saved (end-of-session quiz)
+  const [activeQuiz, setActiveQuiz] = useState<{ title: string; questions: QuizQuestion[]; wpm: number; sessionId: string | null } | null>(null);
+  const [quizDoc, setQuizDoc] = useState<LibraryDocument | null>(null);
+
+  // --- TRAINING ---
+  const [customPrograms, setCustomPrograms] = useState<TrainingProgram[]>(() => loadJson('sr_programs', []));
+  const [enrollment, setEnrollment] = useState<TrainingEnrollment | null>(() => loadJson('sr_training', null));
+  // Passage being read for today's training day; null when not training
+  const [trainingRange, setTrainingRange] = useState<Span | null>(null);
+  // Finished training session waiting for its quiz before the program advances
+  const pendingTraining = useRef<ReadingSession | null>(null);
+  const programs = useMemo(() => [...BUILT_IN_PROGRAMS, ...customPrograms], [customPrograms]);
+  const program = enrollment ? programs.find(pr => pr.id === enrollment.programId) : undefined;
+  const trainingDay = trainingRange && program && enrollment ? scaledDay(program, enrollment) : null;
+  // A training day sets its own loop count; the configured loop settings are left untouched
+  const looping = trainingDay ? true : loopEnabled;
+  const loopLimit = trainingDay ? trainingDay.loops : loopMax;
+  const saveTimer = useRef<number | null>(null);
+
+  const model = useMemo(() => parseDocument(text, language), [text, language]);
+  const words = model.words;
+  const rtl = languageInfo(language).rtl;
+  const joiner = wordJoiner(language);
+  // Per-word display weights (mean 1) from the selected rhythm model
+  const weights = useMemo(() => buildTimingWeights(model, createMultiplierModel(timing.multipliers)), [model, timing]);
+  // Display units: single words, or phrase chunks in chunk mode. `idx` stays a word index;
+  // the unit containing it is what gets shown and what the engine steps over.
+  // A training day limits the engine to its passage.
+  const units = useMemo(() => {
+    const all = buildUnits(model, chunk);
+    return trainingRange ? all.filter(u => u.start >= trainingRange.start && u.start < trainingRange.end) : all;
+  }, [model, chunk, trainingRange]);
+  const unitIdx = units.length > 0 ? spanIndexAt(units, idx) : 0;
   const timer = useRef<number | null>(null);
 
-  // Auto Font Size Logic: Fit the longest word to the screen width
+  // --- NARRATION ---
+  const [narration, setNarration] = useState<NarrationSettings>(() => loadSetting('sr_narration', DEFAULT_NARRATION));
+  // The current voice reports no word boundaries, so the timer paces the display while it speaks
+  const [boundaryFallback, setBoundaryFallback] = useState(false);
+  const fallbackRef = useRef(boundaryFallback);
+  fallbackRef.current = boundaryFallback;
+  const narrationCancel = useRef<(() => void) | null>(null);
+  // Sentence being spoken, and the last word the speech itself moved the display to
+  const spokenSpan = useRef<Span | null>(null);
+  const narratedIdx = useRef(-1);
+  const stopNarration = useCallback(() => {
+    narrationCancel.current?.();
+    narrationCancel.current = null;
+  }, []);
+
+  // --- CLASSROOM ---
+  const [classSettings, setClassSettings] = useState<ClassroomSettings>(() => loadSetting('sr_classroom', DEFAULT_CLASSROOM));
+  const [classroom, setClassroom] = useState<ClassroomSession | null>(null);
+  const [classError, setClassError] = useState<string | null>(null);
+  // Students follow the host: their own playback controls are inert
+  const isStudent = classroom?.role === 'student';
+  const studentRef = useRef(isStudent);
+  studentRef.current = isStudent;
+  const link = useRef<ClassroomTransport | null>(null);
+  const clientId = useRef(newId());
+  const clock = useRef(createClockSync());
+  // Host: students last heard from. Student: their own settings, restored on leaving.
+  const roster = useRef(new Map<string, number>());
+  const ownSettings = useRef<ClassroomState | null>(null);
+  // When the current unit went up (local time), and how much of the next one a student already
+  // missed because the host showed it earlier; bumping `resync` restarts the timer with that lag
+  const unitShownAt = useRef(0);
+  const timerLag = useRef(0);
+  const [resync, setResync] = useState(0);
+
+  // Auto Font Size Logic: Fit the longest unit (word or chunk) to the screen width
   useEffect(() => {
-    if (autoFontSize && words.length > 0) {
-      const longestWord = words.reduce((a, b) => a.length > b.length ? a : b);
+    if (autoFontSize && units.length > 0) {
+      const longestWord = units.reduce((a, u) => Math.max(a, textWidth(unitText(words, u, joiner))), 0);
       const viewportWidth = window.innerWidth;
       // Rough estimation: Character width is approx 0.55 of font size for Inter bold
       const padding = 40; // Total horizontal padding
-      const maxCharCount = Math.max(longestWord.length, 5); // Minimum char count for aesthetic
+      const maxCharCount = Math.max(longestWord, 5); // Minimum char count for aesthetic
       const calculatedSize = Math.floor((viewportWidth - padding) / (maxCharCount * 0.6));
       // Clamp between readable range
       setFontSize(Math.min(Math.max(calculatedSize, 40), 200));
     }
-  }, [words, autoFontSize]);
+  }, [words, units, autoFontSize, joiner]);
 
-  useEffect(() => { localStorage.setItem('sr_text', text); }, [text]);
   useEffect(() => { localStorage.setItem('sr_vol', volume.toString()); }, [volume]);
+  useEffect(() => { localStorage.setItem('sr_context', contextMode ? '1' : '0'); }, [contextMode]);
+  // A student runs on the host's reading settings for the session; only their own are kept
+  useEffect(() => { if (!isStudent) localStorage.setItem('sr_timing', JSON.stringify(timing)); }, [timing, isStudent]);
+  useEffect(() => { if (!isStudent) localStorage.setItem('sr_chunk', JSON.stringify(chunk)); }, [chunk, isStudent]);
+  useEffect(() => { localStorage.setItem('sr_quiz', JSON.stringify(quizSettings)); }, [quizSettings]);
+  useEffect(() => { localStorage.setItem('sr_keys', JSON.stringify(bindings)); }, [bindings]);
+  useEffect(() => { localStorage.setItem('sr_programs', JSON.stringify(customPrograms)); }, [customPrograms]);
+  useEffect(() => { localStorage.setItem('sr_training', JSON.stringify(enrollment)); }, [enrollment]);
+  useEffect(() => { localStorage.setItem('sr_narration', JSON.stringify(narration)); }, [narration]);
+  useEffect(() => { localStorage.setItem('sr_classroom', JSON.stringify(classSettings)); }, [classSettings]);
+  useEffect(() => { localStorage.setItem('sr_presets', JSON.stringify(presets)); }, [presets]);
+
+  const readerSettings: ReaderSettings = useMemo(
+    () => ({ wpm, isRamping, startWpm, endWpm, loopEnabled, loopMax, fontSize, autoFontSize }),
+    [wpm, isRamping, startWpm, endWpm, loopEnabled, loopMax, fontSize, autoFontSize]
+  );
+  useEffect(() => { if (!isStudent) localStorage.setItem('sr_reader', JSON.stringify(readerSettings)); }, [readerSettings, isStudent]);
+  const presetConfig: PresetConfig = { reader: readerSettings, chunk, timing };
+  const docTitle = docs.find(d => d.id === docId)?.title || deriveTitle(text);
+
+  const readerSetters: { [K in keyof ReaderSettings]: (value: ReaderSettings[K]) => void } = {
+    wpm: setWpm, isRamping: setIsRamping, startWpm: setStartWpm, endWpm: setEndWpm,
+    loopEnabled: setLoopEnabled, loopMax: setLoopMax, fontSize: setFontSize, autoFontSize: setAutoFontSize,
+  };
+  // Presets set everything; links only what they mention
+  const applyConfig = (config: { reader: Partial<ReaderSettings>; chunk: ChunkSettings | null; timing: TimingSettings | null }) => {
+    (Object.keys(config.reader) as (keyof ReaderSettings)[]).forEach(key => {
+      (readerSetters[key] as (value: unknown) => void)(config.reader[key]);
+    });
+    if (config.chunk) setChunk(config.chunk);
+    if (config.timing) setTiming(config.timing);
+  };
+  const applyConfigRef = useRef(applyConfig);
+  applyConfigRef.current = applyConfig;
+
+  // Close out the running session (if any) and log it when something was actually read
+  const endSession = useCallback((completed: boolean): ReadingSession | null => {
+    const s = session.current;
+    session.current = null;
+    if (!s || s.wordsRead === 0) return null;
+    saveSession(finishSession(s, completed)).catch(err => console.error('Session not saved', err));
+    return s;
+  }, []);
+
+  useEffect(() => {
+    const onHide = () => endSession(false);
+    window.addEventListener('pagehide', onHide);
+    return () => window.removeEventListener('pagehide', onHide);
+  }, [endSession]);
+
+  const refreshDocs = useCallback(() => listDocuments().then(setDocs).catch(err => console.error('Library unavailable', err)), []);
+
+  const openDoc = useCallback((doc: LibraryDocument) => {
+    endSession(false);
+    setTrainingRange(null);
+    setText(doc.text);
+    setLanguage(documentLanguage(doc));
+    setDocId(doc.id);
+    setIdx(Math.min(doc.lastIdx, Math.max(0, doc.wordCount - 1)));
+    setCurrentLoop(doc.lastLoop);
+    setPlaying(false);
+    localStorage.setItem(ACTIVE_DOC_KEY, doc.id);
+  }, [endSession]);
+
+  // Deep links: settings apply at once, and linked text opens from the library, or is added to it
+  // so the student's position is kept. The link then leaves the address bar, so a reload doesn't
+  // undo later changes. Returns whether the link opened a document.
+  const openLink = useCallback(async (link: SessionLink) => {
+    applyConfigRef.current(link);
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    const skipped = [...link.ignored];
+    let doc: LibraryDocument | undefined;
+    if (link.docId) {
+      doc = await getDocument(link.docId);
+      if (!doc) skipped.push('the linked document is not in this library');
+    }
+    if (!doc && link.text) {
+      const existing = (await listDocuments()).find(d => d.text === link.text);
+      doc = existing || await createDocument(link.text, 'pasted', link.title || undefined, link.language || undefined);
+    }
+    if (doc) openDoc(doc);
+    setLinkNotice(skipped.length ? `${link.name ? `"${link.name}"` : 'This link'} opened without: ${skipped.join('; ')}.` : null);
+    setShowSettings(true);
+    return !!doc;
+  }, [openDoc]);
+
+  // Library bootstrap: migrate the legacy single buffer, then open the deep link or reopen the last active document
+  useEffect(() => {
+    (async () => {
+      try {
+        const migrated = await migrateLegacyText(WELCOME_TEXT);
+        const link = parseLink(window.location.hash);
+        const linked = link ? await openLink(link) : false;
+        const activeId = migrated?.id || localStorage.getItem(ACTIVE_DOC_KEY);
+        const active = !linked && activeId ? await getDocument(activeId) : undefined;
+        if (active) openDoc(active);
+        await refreshDocs();
+      } catch (err) {
+        console.error('Library unavailable', err);
+        const unsaved = unsavedText();
+        if (unsaved !== null) setText(unsaved);
+      }
+    })();
+  }, [openDoc, openLink, refreshDocs]);
+
+  // A link opened while the app is already loaded only changes the fragment
+  useEffect(() => {
+    const onHash = () => {
+      const link = parseLink(window.location.hash);
+      if (link) openLink(link).then(refreshDocs).catch(err => console.error('Link not opened', err));
+    };
+    window.addEventListener('hashchange', onHash);
+    return () => window.removeEventListener('hashchange', onHash);
+  }, [openLink, refreshDocs]);
+
+  // Persist the reading position of the active document: periodically while playing, on change while paused
+  const position = useRef({ idx, currentLoop });
+  position.current = { idx, currentLoop };
+  useEffect(() => {
+    if (!docId || !playing) return;
+    const t = window.setInterval(() => {
+      updateDocument(docId, { lastIdx: position.current.idx, lastLoop: position.current.currentLoop })
+        .catch(err => console.error('Position not saved', err));
+    }, 2000);
+    return () => window.clearInterval(t);
+  }, [docId, playing]);
+
+  useEffect(() => {
+    if (!docId || playing) return;
+    const t = window.setTimeout(() => {
+      updateDocument(docId, { lastIdx: idx, lastLoop: currentLoop })
+        .then(refreshDocs)
+        .catch(err => console.error('Position not saved', err));
+    }, 300);
+    return () => window.clearTimeout(t);
+  }, [docId, idx, currentLoop, playing, refreshDocs]);
+
+  // Content Buffer edits are written back to the active document, or start a new one. Saves read
+  // the document id through refs: an edit made while the first save is still creating the
+  // document must update that document rather than create another.
+  const activeDocId = useRef(docId);
+  activeDocId.current = docId;
+  const pendingCreate = useRef<Promise<LibraryDocument> | null>(null);
+
+  const onTextChange = (value: string) => {
+    setText(value);
+    setTrainingRange(null);
+    // A shorter text may end before the current position
+    setIdx(i => Math.min(i, Math.max(0, parseDocument(value, language).words.length - 1)));
+    if (saveTimer.current) window.clearTimeout(saveTimer.current);
+    saveTimer.current = window.setTimeout(async () => {
+      try {
+        const id = activeDocId.current || (pendingCreate.current && (await pendingCreate.current).id);
+        if (id) {
+          await updateDocument(id, { text: value });
+        } else if (value.trim()) {
+          pendingCreate.current = createDocument(value, 'pasted');
+          const doc = await pendingCreate.current.finally(() => { pendingCreate.current = null; });
+          activeDocId.current = doc.id;
+          setLanguage(documentLanguage(doc));
+          setDocId(doc.id);
+          localStorage.setItem(ACTIVE_DOC_KEY, doc.id);
+        }
+        keepUnsavedText(null);
+        refreshDocs();
+      } catch (err) {
+        console.error('Document not saved', err);
+        keepUnsavedText(value);
+      }
+    }, 500);
+  };
+
+  const newDoc = () => {
+    endSession(false);
+    setTrainingRange(null);
+    setText('');
+    setDocId(null);
+    setIdx(0);
+    setCurrentLoop(1);
+    setPlaying(false);
+    localStorage.removeItem(ACTIVE_DOC_KEY);
+    setShowLibrary(false);
+    setShowSettings(true);
+  };
+
+  const changeLanguage = async (code: string) => {
+    // Segmentation differs between languages, so the position may now lie past the last word
+    const lastIdx = Math.min(idx, Math.max(0, parseDocument(text, code).words.length - 1));
+    setLanguage(code);
+    setTrainingRange(null);
+    setIdx(lastIdx);
+    if (!docId) return;
+    try {
+      await updateDocument(docId, { language: code, lastIdx });
+      refreshDocs();
+    } catch (err) {
+      console.error('Language not saved', err);
+    }
+  };
+
+  const renameDoc = async (id: string, title: string) => {
+    try {
+      await updateDocument(id, { title });
+      refreshDocs();
+    } catch (err) {
+      console.error('Document not renamed', err);
+    }
+  };
+
+  const removeDoc = async (id: string) => {
+    try {
+      await deleteDocument(id);
+      if (id === docId) newDoc();
+      refreshDocs();
+    } catch (err) {
+      console.error('Document not deleted', err);
+    }
+  };
 
   // Audio Sync
   useEffect(() => {
@@ -70,80 +461,364 @@ const App = () => {
     }
   }, [playing, volume]);
 
+  // Session lifecycle: playback starts a session, stopping it mid-text counts as a pause
+  useEffect(() => {
+    if (playing && !session.current) {
+      session.current = startSession(docId, docs.find(d => d.id === docId)?.title || deriveTitle(text));
+    } else if (!playing && session.current) {
+      session.current.pauses += 1;
+    }
+  }, [playing]);
+
   // Calculate current speed with multi-loop ramping support
   const currentWpm = useMemo(() => {
-    if (!isRamping) return wpm;
+    if (!isRamping && !trainingDay) return wpm;
     
     let progress = 0;
-    if (loopMax > 0 && loopEnabled) {
+    if (loopLimit > 0 && looping) {
       // Global progress across all loops
-      const totalWords = loopMax * words.length;
-      const currentAbsoluteIdx = ((currentLoop - 1) * words.length) + idx;
-      progress = currentAbsoluteIdx / Math.max(1, totalWords - 1);
+      const totalUnits = loopLimit * units.length;
+      const currentAbsoluteIdx = ((currentLoop - 1) * units.length) + unitIdx;
+      progress = currentAbsoluteIdx / Math.max(1, totalUnits - 1);
     } else {
-      // Progress within current single loop if loopMax is infinite or loop disabled
-      progress = idx / Math.max(1, words.length - 1);
+      // Progress within current single loop if the loop limit is infinite or loop disabled
+      progress = unitIdx / Math.max(1, units.length - 1);
     }
     
-    return Math.round(startWpm + (endWpm - startWpm) * Math.min(progress, 1));
-  }, [isRamping, wpm, startWpm, endWpm, idx, words.length, loopEnabled, loopMax, currentLoop]);
+    // A training day follows its program curve; plain ramping is the linear case
+    // The ramp fields are only clamped on blur, so a half-typed value must not set the pace
+    const curve = trainingDay ? trainingDay.curve : { type: 'linear' as const, startWpm: clampWpm(startWpm), endWpm: clampWpm(endWpm) };
+    return Math.round(curveWpm(curve, progress));
+  }, [isRamping, trainingDay, wpm, startWpm, endWpm, unitIdx, units.length, looping, loopLimit, currentLoop]);
 
-  // Advance Word Logic
+  // Advance Word Logic (steps a whole unit in chunk mode)
   const next = useCallback(() => {
     setIdx(i => {
-      if (i >= words.length - 1) { 
+      const u = spanIndexAt(units, i);
+      if (u >= units.length - 1) { 
         // Handle Looping
-        if (loopEnabled && (loopMax === 0 || currentLoop < loopMax)) {
+        if (looping && (loopLimit === 0 || currentLoop < loopLimit)) {
           setCurrentLoop(prev => prev + 1);
-          if (audioRef.current) audioRef.current.currentTime = 0;
-          return 0; // Restart
+          // Background music restarts; a synced recording is repositioned along with the text
+          if (audioRef.current && !alignmentRef.current) audioRef.current.currentTime = 0;
+          return units[0].start; // Restart
         }
         // End of reading session
         setPlaying(false); 
         if (audioRef.current) {
           audioRef.current.pause();
-          audioRef.current.currentTime = 0;
+          if (!alignmentRef.current) audioRef.current.currentTime = 0;
         }
         return i; 
       }
-      return i + 1;
+      return units[u + 1].start;
     });
-  }, [words.length, loopEnabled, loopMax, currentLoop]);
+  }, [units, looping, loopLimit, currentLoop]);
+
+  // Returns whether a quiz was actually shown
+  const openQuiz = useCallback((range: Span, sessionId: string | null, reachedWpm: number) => {
+    // Teacher questions cover the whole text, so they only join the check at the end of it
+    const teacher = range.end >= words.length ? docs.find(d => d.id === docId)?.questions : undefined;
+    const questions = buildQuiz(model, range, quizSettings, teacher);
+    if (questions.length === 0) return false;
+    const title = range.end >= words.length && range.start === 0 ? 'Session Check' : 'Section Check';
+    setActiveQuiz({ title, questions, wpm: reachedWpm, sessionId });
+    return true;
+  }, [model, words.length, quizSettings, docs, docId]);
+
+  const finishTrainingDay = useCallback((s: ReadingSession | null, quiz: number | null) => {
+    if (s) setEnrollment(e => e && completeDay(e, s, quiz));
+    setTrainingRange(null);
+    setCurrentLoop(1);
+    setShowSettings(true);
+  }, []);
+
+  const startTraining = () => {
+    const day = program && enrollment ? scaledDay(program, enrollment) : null;
+    if (!day || !enrollment || isDayLocked(enrollment) || words.length === 0) return;
+    const range = trainingSpan(model, idx, day.words);
+    endSession(false);
+    setTrainingRange(range);
+    setCurrentLoop(1);
+    setIdx(range.start);
+    setShowSettings(false);
+    setPlaying(true);
+  };
+
+  const finishQuiz = (correct: number, total: number) => {
+    if (!activeQuiz) return;
+    if (pendingTraining.current) {
+      finishTrainingDay(pendingTraining.current, total > 0 ? correct / total : null);
+      pendingTraining.current = null;
+    }
+    if (activeQuiz.sessionId) {
+      if (total > 0) addQuizResult(activeQuiz.sessionId, correct, total).catch(err => console.error('Quiz result not saved', err));
+    } else if (session.current) {
+      session.current.quizCorrect += correct;
+      session.current.quizTotal += total;
+      setPlaying(true);
+    }
+    setActiveQuiz(null);
+  };
+
+  const saveQuestions = async (questions: QuizQuestion[]) => {
+    if (!quizDoc) return;
+    try {
+      await updateDocument(quizDoc.id, { questions });
+      setQuizDoc(null);
+      refreshDocs();
+    } catch (err) {
+      // The editor stays open so the questions are not lost
+      alert(`Questions not saved: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  // Leaving unit `u`: handles the end of the text (loops, session end, quizzes) and section checks, then steps on
+  const advance = useCallback((u: number) => {
+    const s = session.current;
+    if (u >= units.length - 1) {
+      if (s) s.loopsCompleted += 1;
+      if (!(looping && (loopLimit === 0 || currentLoop < loopLimit))) {
+        const finished = endSession(true);
+        const range = trainingRange || (quizSettings.mode === 'sections' ? model.sections[model.sections.length - 1] : { start: 0, end: words.length });
+        const quizShown = quizSettings.mode !== 'off' && openQuiz(range, finished?.id || null, finished?.avgWpm || currentWpm);
+        if (trainingRange) {
+          if (quizShown) pendingTraining.current = finished;
+          else finishTrainingDay(finished, null);
+        }
+      }
+    } else if (quizSettings.mode === 'sections') {
+      // Crossing into a new section pauses for a check on the one just read; sections too short
+      // to quiz (headings, lists, one-liners) are read straight through
+      const section = model.sections[spanIndexAt(model.sections, units[u].start)];
+      if (units[u + 1].start >= section.end && openQuiz(section, null, currentWpm)) {
+        next();
+        setPlaying(false);
+        return;
+      }
+    }
+    next();
+  }, [units, currentWpm, next, looping, loopLimit, currentLoop, endSession, quizSettings, model, words.length, openQuiz, trainingRange, finishTrainingDay]);
+  // Speech callbacks outlive renders, so they reach the latest `advance` through a ref
+  const advanceRef = useRef(advance);
+  advanceRef.current = advance;
+
+  // Pacing: an aligned recording leads, then narration, unless the voice can't report word boundaries
+  const audioSynced = !isStudent && !!alignment && !!audioName;
+  const narrating = !isStudent && !audioSynced && narration.enabled && narrationSupported();
+  const timerPaced = !audioSynced && (!narrating || boundaryFallback);
+  alignmentRef.current = audioSynced ? alignment : null;
 
   // Speed Timer
   useEffect(() => {
     if (timer.current) window.clearTimeout(timer.current);
-    if (playing && words.length > 0) {
-      const word = words[idx] || '';
-      let ms = 60000 / currentWpm;
-      // Add punctuation pauses for natural reading rhythm
-      if (/[.!?]$/.test(word)) ms *= 2.2;
-      else if (/[,;:]$/.test(word)) ms *= 1.5;
-      timer.current = window.setTimeout(next, ms);
+    if (playing && units.length > 0 && timerPaced) {
+      // A chunk stays up for the combined time of its words
+      const unit = units[unitIdx];
+      let weight = 0;
+      for (let i = unit.start; i < unit.end; i++) weight += weights[i] ?? 1;
+      const ms = (60000 / currentWpm) * weight;
+      const lag = Math.min(timerLag.current, ms);
+      timerLag.current = 0;
+      unitShownAt.current = Date.now() - lag;
+      timer.current = window.setTimeout(() => {
+        const s = session.current;
+        if (s) recordUnit(s, unit.end - unit.start, ms, currentWpm);
+        advance(unitIdx);
+      }, ms - lag);
     }
     return () => { if (timer.current) window.clearTimeout(timer.current); };
-  }, [playing, idx, currentWpm, next, words]);
+  }, [playing, unitIdx, units, currentWpm, weights, advance, timerPaced, resync]);
 
-  // OCR Logic
-  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // A new voice may report boundaries; changed settings or text restart the utterance
+  useEffect(() => { setBoundaryFallback(false); }, [narration.voiceURI]);
+  useEffect(() => stopNarration(), [narration, units, stopNarration]);
+
+  // Narration Driver: speaks one sentence at a time from the current word. Boundary events move
+  // `idx`; any other change of position (seek, loop restart, resume) restarts speech from there.
+  useEffect(() => {
+    if (!playing || !narrating || units.length === 0) {
+      stopNarration();
+      return;
+    }
+    const spoken = spokenSpan.current;
+    if (narrationCancel.current && spoken) {
+      const following = boundaryFallback ? idx >= spoken.start && idx < spoken.end : idx === narratedIdx.current;
+      if (following) return;
+    }
+    stopNarration();
+
+    const rangeEnd = units[units.length - 1].end;
+    const sentence = model.sentences[spanIndexAt(model.sentences, idx)];
+    const span = { start: idx, end: Math.min(sentence.end, rangeEnd) };
+    const speechWpm = narrationWpm(narration);
+    let last = idx;
+    let lastAt = performance.now();
+    // Count the words spoken since the previous boundary towards the session
+    const record = (upTo: number) => {
+      const now = performance.now();
+      const s = session.current;
+      if (s && upTo > last) recordUnit(s, upTo - last, now - lastAt, speechWpm);
+      last = upTo;
+      lastAt = now;
+    };
+
+    spokenSpan.current = span;
+    narratedIdx.current = idx;
+    narrationCancel.current = speakSpan(words, span, narration, {
+      onWord: (i) => {
+        if (fallbackRef.current || i <= last) return;
+        record(i);
+        narratedIdx.current = i;
+        setIdx(i);
+      },
+      onEnd: () => {
+        if (fallbackRef.current) return; // the timer moves on by itself
+        narrationCancel.current = null;
+        record(span.end);
+        narratedIdx.current = span.end - 1;
+        setIdx(span.end - 1);
+        advanceRef.current(spanIndexAt(units, span.end - 1));
+      },
+      onNoBoundaries: () => setBoundaryFallback(true),
+      onError: (error) => {
+        console.error('Narration failed', error);
+        setBoundaryFallback(true);
+      },
+    }, language);
+  }, [playing, narrating, idx, currentLoop, units, model, words, narration, boundaryFallback, stopNarration, language]);
+
+  useEffect(() => stopNarration, [stopNarration]);
+
+  // A timing map only fits the text it was made for
+  useEffect(() => {
+    setAlignment(null);
+    setAlignmentError(null);
+  }, [text, language]);
+
+  // Text → audio: any position change the audio didn't cause moves the recording there
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audioSynced || !alignment || !audio || idx === audioIdx.current) return;
+    audioIdx.current = idx;
+    audioSeeking.current = true;
+    audio.currentTime = alignment.starts[Math.min(idx, alignment.starts.length - 1)];
+  }, [idx, audioSynced, alignment]);
+
+  // Audio Follower: steps to the next unit once the recording reaches its first word
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!playing || !audioSynced || !alignment || !audio || units.length === 0) return;
+    // Looping restarts a recording that already ended
+    if (audio.paused) audio.play().catch(() => console.log("Audio needs user interaction first."));
+    const unit = units[unitIdx];
+    const following = units[unitIdx + 1];
+    const nextAt = following ? alignment.starts[following.start] : alignment.starts[unit.end] ?? Infinity;
+    let frame = 0;
+    const tick = () => {
+      if (audio.currentTime < nextAt && !audio.ended) {
+        frame = requestAnimationFrame(tick);
+        return;
+      }
+      const s = session.current;
+      const ms = (Math.min(audio.currentTime, nextAt) - alignment.starts[unit.start]) * 1000;
+      if (s) recordUnit(s, unit.end - unit.start, Math.max(0, ms), alignment.wpm);
+      audioIdx.current = following ? following.start : -1;
+      advanceRef.current(unitIdx);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, audioSynced, alignment, units, unitIdx, currentLoop]);
+
+  const onTimingMap = async (file: File) => {
+    try {
+      setAlignment(parseTimingMap(await file.text(), file.name, words, language));
+      setAlignmentError(null);
+      audioIdx.current = -1;
+    } catch (err) {
+      setAlignment(null);
+      setAlignmentError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // OCR Logic: every selected photo becomes a page of one scan, reviewed before it is saved
+  const scanImages = async (files: File[]) => {
+    const controller = new AbortController();
+    scanAbort.current = controller;
+    setScanError(null);
+    setScanProgress(0);
     setIsScanning(true);
     try {
-      // @ts-ignore
-      const { data: { text: res } } = await Tesseract.recognize(file, 'eng', {
-        logger: (m: any) => { if (m.status === 'recognizing') setScanProgress(m.progress); }
+      const pages = await recognizePages(files, languageInfo(language), {
+        signal: controller.signal,
+        onProgress: (page, total, stage, progress) => {
+          setScanProgress(progress);
+          setScanStatus(`${SCAN_STAGES[stage]}${total > 1 ? ` · page ${page} of ${total}` : ''}`);
+        },
       });
-      setText(res);
-      setIdx(0);
-      setCurrentLoop(1);
-      setShowSettings(true);
-    } catch (e) { 
-      alert("Note: Scanner requires an initial online load to cache Tesseract models.");
+      setScanPages(prev => [...(prev || []), ...pages]);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        setScanError(err instanceof Error ? err.message : String(err));
+      }
     }
+    scanAbort.current = null;
     setIsScanning(false);
   };
 
+  const onFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []);
+    e.target.value = '';
+    if (files.length) scanImages(files);
+  };
+
+  const scanDraft = useMemo(() => (scanPages ? buildDraft(scanPages) : []), [scanPages]);
+
+  const saveScan = async (content: string) => {
+    if (!content.trim()) {
+      setScanPages(null);
+      return;
+    }
+    try {
+      const doc = await createDocument(content, 'ocr', undefined, language);
+      setScanPages(null);
+      openDoc(doc);
+      refreshDocs();
+      setShowSettings(true);
+    } catch (err) {
+      // The review stays open underneath, so the corrected text can be saved again
+      setScanError(`The scan could not be saved: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Document Import (txt, md, html, epub, pdf)
+  const loadImported = async (title: string, content: string) => {
+    try {
+      const doc = await createDocument(content, 'file', title);
+      openDoc(doc);
+      refreshDocs();
+      setPendingBook(null);
+      setShowSettings(true);
+    } catch (err) {
+      // The chapter picker stays open so the save can be retried
+      alert(`Import not saved: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const onImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importFile(file);
+      if (!imported.text) throw new Error('No readable text found in this file.');
+      if (imported.chapters.length > 1) setPendingBook(imported);
+      else await loadImported(imported.title, imported.text);
+    } catch (err) {
+      alert(`Import failed: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
   const onAudioFile = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -157,7 +832,320 @@ const App = () => {
     setPlaying(false);
   };
 
-  const { pre, p, suf } = getParts(words[idx] || '');
+  const seek = useCallback((target: number) => {
+    if (isStudent) return;
+    const clamped = Math.min(Math.max(target, 0), Math.max(0, words.length - 1));
+    if (session.current && clamped < idx) session.current.rewinds += 1;
+    setIdx(clamped);
+  }, [words.length, idx, isStudent]);
+
+  // --- CLASSROOM SYNC ---
+  // The host broadcasts its text, pacing settings and position; students apply them and run
+  // their own timer, which ticks from the host keep in step.
+  const hostShownAt = useRef(0);
+  const hostView = useRef<{ content: ClassroomContent; state: ClassroomState }>(null!);
+  hostView.current = {
+    content: { title: docTitle, text, language },
+    state: { wpm, isRamping, startWpm, endWpm, loopEnabled, loopMax, chunk, timing },
+  };
+  const hostTick = useRef({ idx, loop: currentLoop, playing });
+  hostTick.current = { idx, loop: currentLoop, playing };
+
+  const sendTick = useCallback(() => {
+    link.current?.send({ type: 'tick', from: clientId.current, ...hostTick.current, shownAt: hostShownAt.current });
+  }, []);
+
+  const sendAll = useCallback(() => {
+    const t = link.current;
+    if (!t) return;
+    t.send({ type: 'content', from: clientId.current, content: hostView.current.content });
+    t.send({ type: 'state', from: clientId.current, state: hostView.current.state });
+    sendTick();
+  }, [sendTick]);
+
+  const applyState = (st: ClassroomState) => {
+    setWpm(st.wpm);
+    setIsRamping(st.isRamping);
+    setStartWpm(st.startWpm);
+    setEndWpm(st.endWpm);
+    setLoopEnabled(st.loopEnabled);
+    setLoopMax(st.loopMax);
+    setChunk(st.chunk);
+    setTiming(st.timing);
+  };
+
+  // The host's text is shown, never saved to the student's library
+  const applyContent = (content: ClassroomContent) => {
+    setClassroom(c => c && { ...c, title: content.title });
+    if (content.text === text && content.language === language && !docId) return;
+    endSession(false);
+    setTrainingRange(null);
+    setDocId(null);
+    setText(content.text);
+    setLanguage(content.language);
+  };
+
+  const followTick = (m: Extract<ClassroomMessage, { type: 'tick' }>) => {
+    // Time the host's unit has already been up, in local terms
+    const lag = m.playing ? Math.max(0, Date.now() - clock.current.toLocal(m.shownAt)) : 0;
+    if (m.idx === idx) {
+      if (!playing) timerLag.current = lag;
+      else if (m.playing && Math.abs(unitShownAt.current - (Date.now() - lag)) > CLASS_DRIFT_MS) {
+        timerLag.current = lag;
+        setResync(n => n + 1);
+      }
+    } else {
+      // One unit ahead is expected: this tick left the host before our own timer moved on
+      const lead = (currentLoop - m.loop) * units.length + unitIdx - spanIndexAt(units, m.idx);
+      if (m.playing && playing && lead === 1) return;
+      timerLag.current = lag;
+      setIdx(m.idx);
+    }
+    setCurrentLoop(m.loop);
+    setPlaying(m.playing);
+  };
+
+  const leaveClass = async () => {
+    const t = link.current;
+    const role = classroom?.role;
+    link.current = null;
+    roster.current.clear();
+    setClassroom(null);
+    if (!t) return;
+    t.send({ type: role === 'host' ? 'end' : 'bye', from: clientId.current });
+    t.close();
+    if (role !== 'student') return;
+    // Back to the student's own settings and document
+    setPlaying(false);
+    if (ownSettings.current) applyState(ownSettings.current);
+    ownSettings.current = null;
+    const activeId = localStorage.getItem(ACTIVE_DOC_KEY);
+    const doc = activeId ? await getDocument(activeId) : undefined;
+    if (doc) openDoc(doc);
+  };
+
+  const onClassMessage = (m: ClassroomMessage) => {
+    if (!classroom || m.from === clientId.current) return;
+    if (classroom.role === 'host') {
+      if (m.type === 'hello' || m.type === 'ping') roster.current.set(m.from, Date.now());
+      if (m.type === 'hello') sendAll();
+      else if (m.type === 'ping') link.current?.send({ type: 'pong', from: clientId.current, to: m.from, t0: m.t0, hostTime: Date.now() });
+      else if (m.type === 'bye') roster.current.delete(m.from);
+      setClassroom(c => c && { ...c, students: roster.current.size });
+      return;
+    }
+    switch (m.type) {
+      case 'content': applyContent(m.content); break;
+      case 'state': applyState(m.state); break;
+      case 'tick': followTick(m); break;
+      case 'pong': if (m.to === clientId.current) clock.current.sample(m.t0, m.hostTime); break;
+      case 'end':
+        leaveClass();
+        setClassError('The host ended the class.');
+        break;
+    }
+  };
+  // Transport callbacks outlive renders, so they dispatch through the latest handler
+  const classHandler = useRef(onClassMessage);
+  classHandler.current = onClassMessage;
+
+  const startClass = async (role: ClassroomSession['role'], room: string) => {
+    setClassError(null);
+    let transport: ClassroomTransport;
+    try {
+      transport = await openTransport(classSettings, room);
+    } catch (err) {
+      setClassError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    link.current = transport;
+    clock.current = createClockSync();
+    if (role === 'student') {
+      ownSettings.current = { wpm, isRamping, startWpm, endWpm, loopEnabled, loopMax, chunk, timing };
+      setPlaying(false);
+      setShowSettings(false);
+    }
+    setClassroom({ role, room, connected: true, students: 0, title: '' });
+    transport.subscribe(m => classHandler.current(m));
+    // (Re)connecting catches the other side up: the host re-sends everything, students ask for it
+    transport.onStatus(connected => {
+      setClassroom(c => c && { ...c, connected });
+      if (!connected) return;
+      if (role === 'host') sendAll();
+      else transport.send({ type: 'hello', from: clientId.current });
+    });
+  };
+
+  // Host: changes go out as they happen; typing in the Content Buffer is sent once it settles
+  const isHost = classroom?.role === 'host';
+  useEffect(() => {
+    if (!isHost) return;
+    const t = window.setTimeout(() => link.current?.send({ type: 'content', from: clientId.current, content: hostView.current.content }), 300);
+    return () => window.clearTimeout(t);
+  }, [isHost, text, language, docTitle]);
+
+  useEffect(() => {
+    if (isHost) link.current?.send({ type: 'state', from: clientId.current, state: hostView.current.state });
+  }, [isHost, wpm, isRamping, startWpm, endWpm, loopEnabled, loopMax, chunk, timing]);
+
+  useEffect(() => {
+    hostShownAt.current = Date.now();
+    if (isHost) sendTick();
+  }, [isHost, idx, currentLoop, playing, sendTick]);
+
+  // Heartbeats: the host repeats its position and prunes students that went quiet;
+  // students ping, which both keeps them on the roster and samples the host clock
+  useEffect(() => {
+    if (!classroom) return;
+    const beat = () => {
+      if (classroom.role === 'student') {
+        link.current?.send({ type: 'ping', from: clientId.current, t0: Date.now() });
+        return;
+      }
+      sendTick();
+      const cutoff = Date.now() - CLASS_STUDENT_TIMEOUT_MS;
+      roster.current.forEach((seen, id) => { if (seen < cutoff) roster.current.delete(id); });
+      setClassroom(c => c && { ...c, students: roster.current.size });
+    };
+    beat();
+    const t = window.setInterval(beat, classroom.role === 'student' ? CLASS_PING_MS : CLASS_HEARTBEAT_MS);
+    return () => window.clearInterval(t);
+  }, [classroom?.role, classroom?.room, sendTick]);
+
+  useEffect(() => {
+    if (!classroom) return;
+    const onHide = () => link.current?.send({ type: classroom.role === 'host' ? 'end' : 'bye', from: clientId.current });
+    window.addEventListener('pagehide', onHide);
+    return () => window.removeEventListener('pagehide', onHide);
+  }, [classroom?.role]);
+
+  useEffect(() => () => link.current?.close(), []);
+
+  // --- KEYBOARD & MEDIA KEYS ---
+  // Up/down nudges the fixed speed, or shifts the whole ramp when ramping
+  const changeSpeed = (delta: number) => {
+    if (isRamping) {
+      setStartWpm(v => clampWpm(v + delta));
+      setEndWpm(v => clampWpm(v + delta));
+    } else {
+      setWpm(v => clampWpm(v + delta));
+    }
+  };
+
+  const overlayOpen = showLibrary || showStats || showToc || !!pendingBook || !!quizDoc || !!activeQuiz || !!scanPages || isScanning || !!scanError;
+  const closeOverlays = () => {
+    setShowLibrary(false);
+    setShowStats(false);
+    setShowToc(false);
+    setPendingBook(null);
+    setQuizDoc(null);
+  };
+
+  const actions: Record<ShortcutAction, () => void> = {
+    togglePlay: () => setPlaying(pl => !pl),
+    prevWord: () => seek(units[Math.max(0, unitIdx - 1)]?.start ?? 0),
+    nextWord: () => seek(units[Math.min(units.length - 1, unitIdx + 1)]?.start ?? 0),
+    prevSentence: () => seek(prevSpanStart(model.sentences, idx)),
+    nextSentence: () => seek(nextSpanStart(model.sentences, idx)),
+    speedUp: () => changeSpeed(WPM_STEP),
+    speedDown: () => changeSpeed(-WPM_STEP),
+    toggleLoop: () => setLoopEnabled(l => !l),
+    toggleSettings: () => setShowSettings(v => !v),
+  };
+  // The listeners below are bound once; they always dispatch through the latest handlers
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+  const shortcutState = useRef({ overlayOpen, showSettings });
+  shortcutState.current = { overlayOpen, showSettings };
+  const seekRef = useRef(seek);
+  seekRef.current = seek;
+  const wpmRef = useRef(currentWpm);
+  wpmRef.current = currentWpm;
+
+  // Audio → text: seeking the recording (scrubber, lock screen) moves the reader to the spoken word
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audioSynced || !alignment || !audio) return;
+    const onSeeked = () => {
+      if (audioSeeking.current) {
+        audioSeeking.current = false;
+        return;
+      }
+      const i = wordAtTime(alignment, audio.currentTime);
+      audioIdx.current = i;
+      seekRef.current(i);
+    };
+    audio.addEventListener('seeked', onSeeked);
+    return () => audio.removeEventListener('seeked', onSeeked);
+  }, [audioSynced, alignment]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      const combo = comboFromEvent(e);
+      const action = combo ? actionForCombo(bindings, combo) : null;
+      if (!action) return;
+      if (e.repeat && !REPEATABLE_ACTIONS.has(action)) { e.preventDefault(); return; }
+      const { overlayOpen: overlay, showSettings: settings } = shortcutState.current;
+      // Panels take priority: Esc closes them, and reader keys stay inactive behind them
+      if (overlay) {
+        if (action === 'toggleSettings') { e.preventDefault(); closeOverlays(); }
+        return;
+      }
+      if ((settings || studentRef.current) && action !== 'toggleSettings') return;
+      e.preventDefault();
+      actionsRef.current[action]();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [bindings]);
+
+  // Media Session: headset / lock-screen controls. Browsers only surface these while media is
+  // playing, so they light up once a background track is loaded; the audio follows `playing`.
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    const ms = navigator.mediaSession;
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => { if (!studentRef.current) setPlaying(true); }],
+      ['pause', () => { if (!studentRef.current) setPlaying(false); }],
+      ['stop', () => { if (!studentRef.current) setPlaying(false); }],
+      ['previoustrack', () => actionsRef.current.prevSentence()],
+      ['nexttrack', () => actionsRef.current.nextSentence()],
+      ['seekbackward', () => actionsRef.current.prevSentence()],
+      ['seekforward', () => actionsRef.current.nextSentence()],
+      ['seekto', d => {
+        if (d.seekTime === undefined) return;
+        // A synced recording seeks itself and the text follows
+        if (alignmentRef.current && audioRef.current) audioRef.current.currentTime = d.seekTime;
+        else seekRef.current(Math.round((d.seekTime / 60) * wpmRef.current));
+      }],
+    ];
+    handlers.forEach(([action, handler]) => {
+      try { ms.setActionHandler(action, handler); } catch { /* action unsupported by this browser */ }
+    });
+    return () => handlers.forEach(([action]) => {
+      try { ms.setActionHandler(action, null); } catch { /* ignore */ }
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    const ms = navigator.mediaSession;
+    ms.playbackState = playing ? 'playing' : 'paused';
+    const title = docs.find(d => d.id === docId)?.title || deriveTitle(text);
+    if (typeof MediaMetadata !== 'undefined' && ms.metadata?.title !== title) {
+      ms.metadata = new MediaMetadata({ title, artist: 'Speed Reader', album: 'Tim the Teacher' });
+    }
+    // Position is the recording's time when synced, otherwise reading time at the current speed
+    try {
+      const sync = alignmentRef.current;
+      const duration = sync ? sync.duration : Math.max(1, (words.length / currentWpm) * 60);
+      const position = sync ? sync.starts[Math.min(idx, sync.starts.length - 1)] : (idx / currentWpm) * 60;
+      ms.setPositionState({ duration, position: Math.min(duration, position), playbackRate: 1 });
+    } catch { /* setPositionState unsupported */ }
+  }, [playing, idx, currentWpm, words.length, docs, docId, text, audioSynced, alignment]);
+
+  const { pre, p, suf } = getParts(unitText(words, units[unitIdx], joiner));
 
   return (
     <div className="h-screen w-screen bg-black flex flex-col overflow-hidden relative text-white selection:bg-blue-500/30">
@@ -174,14 +1162,30 @@ const App = () => {
             <div className="flex gap-6 md:gap-8">
               <div className="space-y-1">
                 <p className="text-[10px] uppercase font-black tracking-[0.3em] text-zinc-600">Velocity</p>
-                <p className="text-2xl md:text-3xl font-bold text-blue-400 tabular-nums">{currentWpm} <span className="text-[9px] text-zinc-700 uppercase font-bold">WPM</span></p>
+                <p className="text-2xl md:text-3xl font-bold text-blue-400 tabular-nums">{audioSynced ? alignment!.wpm : timerPaced ? currentWpm : narrationWpm(narration)} <span className="text-[9px] text-zinc-700 uppercase font-bold">WPM</span></p>
               </div>
               
-              {loopEnabled && (
+              {trainingDay && enrollment && (
+                <div className="space-y-1 border-l border-white/10 pl-6 md:pl-8">
+                  <p className="text-[10px] uppercase font-black tracking-[0.3em] text-zinc-600">Training</p>
+                  <p className="text-2xl md:text-3xl font-bold text-orange-400 tabular-nums">Day {enrollment.dayIndex + 1}</p>
+                </div>
+              )}
+
+              {looping && (
                 <div className="space-y-1 border-l border-white/10 pl-6 md:pl-8">
                   <p className="text-[10px] uppercase font-black tracking-[0.3em] text-zinc-600">Cycle</p>
                   <p className="text-2xl md:text-3xl font-bold text-green-400 tabular-nums">
-                    {currentLoop}<span className="text-xs text-zinc-800 uppercase font-bold tracking-widest ml-1">/ {loopMax === 0 ? '∞' : loopMax}</span>
+                    {currentLoop}<span className="text-xs text-zinc-800 uppercase font-bold tracking-widest ml-1">/ {loopLimit === 0 ? '∞' : loopLimit}</span>
+                  </p>
+                </div>
+              )}
+
+              {classroom && (
+                <div className="space-y-1 border-l border-white/10 pl-6 md:pl-8">
+                  <p className="text-[10px] uppercase font-black tracking-[0.3em] text-zinc-600">{isStudent ? 'Following' : 'Hosting'}</p>
+                  <p className={`text-2xl md:text-3xl font-bold tabular-nums tracking-widest ${classroom.connected ? 'text-lime-400' : 'text-amber-500'}`}>
+                    {classroom.room}{!isStudent && <span className="text-xs text-zinc-800 uppercase font-bold tracking-widest ml-1">· {classroom.students}</span>}
                   </p>
                 </div>
               )}
@@ -203,13 +1207,28 @@ const App = () => {
         </div>
 
         <div className="flex gap-2 md:gap-3 pointer-events-auto">
+          {model.sections.length > 1 && (
+            <button onClick={() => { setPlaying(false); setShowToc(true); }} className="p-3 md:p-4 glass rounded-xl md:rounded-2xl text-zinc-500 hover:text-blue-400 transition-all active:scale-95">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 6h16M4 12h10M4 18h13" /></svg>
+            </button>
+          )}
+          <button onClick={() => { setPlaying(false); setShowStats(true); }} className="p-3 md:p-4 glass rounded-xl md:rounded-2xl text-zinc-500 hover:text-blue-400 transition-all active:scale-95">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" /></svg>
+          </button>
+          <button onClick={() => { setPlaying(false); setShowLibrary(true); }} className="p-3 md:p-4 glass rounded-xl md:rounded-2xl text-zinc-500 hover:text-blue-400 transition-all active:scale-95">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
+          </button>
           <label className={`p-3 md:p-4 glass rounded-xl md:rounded-2xl cursor-pointer hover:bg-white/10 transition-all active:scale-95 group ${audioName ? 'border-blue-500/40' : ''}`}>
             <svg className="w-5 h-5 text-zinc-500 group-hover:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" /></svg>
             <input type="file" className="hidden" accept="audio/*" onChange={onAudioFile} />
           </label>
+          <label className="p-3 md:p-4 glass rounded-xl md:rounded-2xl cursor-pointer hover:bg-white/10 transition-all active:scale-95 group">
+            <svg className="w-5 h-5 text-zinc-500 group-hover:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M9 13h6m-3-3v6m5 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+            <input type="file" className="hidden" accept={IMPORT_ACCEPT} onChange={onImportFile} />
+          </label>
           <label className="p-3 md:p-4 glass rounded-xl md:rounded-2xl cursor-pointer hover:bg-white/10 transition-all active:scale-95 group">
             <svg className="w-5 h-5 text-zinc-500 group-hover:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /></svg>
-            <input type="file" className="hidden" accept="image/*" onChange={onFile} />
+            <input type="file" className="hidden" accept="image/*" multiple onChange={onFile} />
           </label>
           <button onClick={() => setShowSettings(!showSettings)} className={`p-3 md:p-4 rounded-xl md:rounded-2xl transition-all active:scale-95 ${showSettings ? 'bg-blue-600 text-white' : 'glass text-zinc-500 hover:text-white'}`}>
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
@@ -218,24 +1237,34 @@ const App = () => {
       </div>
 
       {/* --- READER CORE --- */}
-      <div className="flex-1 flex flex-col items-center justify-center cursor-pointer px-4 md:px-10" onClick={() => setPlaying(!playing)}>
-        <div className="flex font-black leading-none w-full select-none" style={{ fontSize: `${fontSize}px` }}>
-          <div className="flex-1 text-right text-zinc-200 overflow-hidden pr-2">{pre}</div>
+      <div className="flex-1 flex flex-col items-center justify-center cursor-pointer px-4 md:px-10" onClick={() => { if (!isStudent) setPlaying(!playing); }}>
+        <div lang={language} dir={rtl ? 'rtl' : 'ltr'} className="flex font-black leading-none w-full select-none" style={{ fontSize: `${fontSize}px` }}>
+          <div className="flex-1 text-end text-zinc-200 overflow-hidden pe-2 whitespace-pre">{pre}</div>
           <div className="pivot-red">{p}</div>
-          <div className="flex-1 text-left text-zinc-200 overflow-hidden pl-2">{suf}</div>
+          <div className="flex-1 text-start text-zinc-200 overflow-hidden ps-2 whitespace-pre">{suf}</div>
         </div>
         
-        {/* Progress Tracker */}
-        <div className="mt-16 md:mt-20 w-full max-w-xl h-1 bg-zinc-900 rounded-full overflow-hidden border border-white/5 relative">
-          <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${(idx / words.length) * 100}%` }} />
-        </div>
+        {/* Progress Tracker & Structure Navigation */}
+        <ReaderNavigation doc={model} idx={idx} onSeek={seek} />
         
         {!playing && (
-          <div className="mt-10 flex flex-col items-center gap-2 opacity-40">
-             <p className="text-[10px] font-black uppercase tracking-[0.5em] animate-pulse-soft">System Idle</p>
-             <p className="text-[9px] text-zinc-500 uppercase font-medium">Tap to resume</p>
+          <div className="mt-10 flex flex-col items-center gap-2">
+             <div className="flex flex-col items-center gap-2 opacity-40">
+               <p className="text-[10px] font-black uppercase tracking-[0.5em] animate-pulse-soft">System Idle</p>
+               <p className="text-[9px] text-zinc-500 uppercase font-medium">{isStudent ? 'Waiting for the host' : 'Tap to resume'}</p>
+             </div>
+             <button
+               onClick={e => { e.stopPropagation(); setContextMode(!contextMode); }}
+               className={`mt-2 px-4 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all ${contextMode ? 'bg-blue-600/80 text-white' : 'bg-zinc-800 text-zinc-500'}`}
+             >
+               Context {contextMode ? 'On' : 'Off'}
+             </button>
           </div>
         )}
+
+        {!playing && contextMode && !isStudent && words.length > 0 && (
+          <ContextView doc={model} idx={idx} language={language} onSeek={seek} onResume={() => setPlaying(true)} />
+        )}
       </div>
 
       {/* --- SETTINGS MODAL --- */}
@@ -253,12 +1282,36 @@ const App = () => {
               <button onClick={() => setShowSettings(false)} className="px-6 md:px-10 py-3 md:py-4 glass rounded-2xl md:rounded-3xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all active:scale-95 shrink-0">Dismiss</button>
             </div>
 
+            {linkNotice && (
+              <div className="flex justify-between items-center gap-4 p-4 rounded-2xl border border-amber-500/30 bg-amber-500/10">
+                <p className="text-xs font-bold text-amber-200 leading-relaxed">{linkNotice}</p>
+                <button onClick={() => setLinkNotice(null)} className="text-[9px] font-black uppercase tracking-widest text-amber-400 hover:text-white shrink-0">Dismiss</button>
+              </div>
+            )}
+
             {/* Input Section */}
             <div className="space-y-4">
-              <label className="text-[10px] font-black text-blue-500 uppercase tracking-[0.4em] ml-2">Content Buffer</label>
+              <div className="flex justify-between items-center">
+                <div className="flex items-center gap-3">
+                  <label className="text-[10px] font-black text-blue-500 uppercase tracking-[0.4em] ml-2">Content Buffer</label>
+                  <select
+                    value={language}
+                    onChange={e => changeLanguage(e.target.value)}
+                    title="Document language · also used for scanning"
+                    className="bg-zinc-900 border border-white/10 rounded-lg px-2 py-1 text-[9px] font-black uppercase tracking-widest text-zinc-400 outline-none focus:border-blue-500/40"
+                  >
+                    {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                  </select>
+                </div>
+                <button onClick={() => setShowLibrary(true)} className="text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white truncate max-w-[60%]">
+                  {docs.find(d => d.id === docId)?.title || 'Unsaved'} · Library
+                </button>
+              </div>
               <textarea 
                 value={text} 
-                onChange={e => setText(e.target.value)} 
+                lang={language}
+                dir={rtl ? 'rtl' : 'ltr'}
+                onChange={e => onTextChange(e.target.value)} 
                 className="w-full h-40 md:h-48 bg-white/5 border border-white/10 rounded-[1.5rem] md:rounded-[2rem] p-6 md:p-8 text-zinc-200 focus:outline-none focus:border-blue-500/40 resize-none text-base md:text-lg leading-relaxed custom-scrollbar"
                 placeholder="Paste text here..." 
               />
@@ -344,33 +1397,154 @@ const App = () => {
                   <div className="grid grid-cols-2 gap-6 md:gap-10">
                     <div className="space-y-3">
                       <p className="text-[9px] font-black text-zinc-600 uppercase tracking-widest text-center">Initial Speed</p>
-                      <input type="number" value={startWpm} onChange={e => setStartWpm(parseInt(e.target.value) || 0)} className="w-full bg-black border border-white/10 p-4 md:p-6 rounded-2xl md:rounded-3xl font-black text-orange-400 text-center text-2xl md:text-3xl outline-none focus:border-orange-500/30" />
+                      <input type="number" min="50" max="1500" step="10" value={startWpm} onChange={e => setStartWpm(parseInt(e.target.value) || 0)} onBlur={() => setStartWpm(clampWpm)} className="w-full bg-black border border-white/10 p-4 md:p-6 rounded-2xl md:rounded-3xl font-black text-orange-400 text-center text-2xl md:text-3xl outline-none focus:border-orange-500/30" />
                     </div>
                     <div className="space-y-3">
                       <p className="text-[9px] font-black text-zinc-600 uppercase tracking-widest text-center">Target Speed</p>
-                      <input type="number" value={endWpm} onChange={e => setEndWpm(parseInt(e.target.value) || 0)} className="w-full bg-black border border-white/10 p-4 md:p-6 rounded-2xl md:rounded-3xl font-black text-orange-400 text-center text-2xl md:text-3xl outline-none focus:border-orange-500/30" />
+                      <input type="number" min="50" max="1500" step="10" value={endWpm} onChange={e => setEndWpm(parseInt(e.target.value) || 0)} onBlur={() => setEndWpm(clampWpm)} className="w-full bg-black border border-white/10 p-4 md:p-6 rounded-2xl md:rounded-3xl font-black text-orange-400 text-center text-2xl md:text-3xl outline-none focus:border-orange-500/30" />
                     </div>
                   </div>
                 )}
               </div>
+
+              {/* Presets & Deep Links */}
+              <PresetsPanel
+                presets={presets}
+                current={presetConfig}
+                content={{ text, title: docTitle, docId, language }}
+                onSave={name => setPresets(list => [...list, createPreset(name, presetConfig)])}
+                onApply={applyConfig}
+                onDelete={id => setPresets(list => list.filter(p => p.id !== id))}
+                onImport={imported => setPresets(list => [...list, ...imported])}
+              />
+
+              {/* Training Program */}
+              <TrainingPanel
+                programs={programs}
+                enrollment={enrollment}
+                onEnroll={pr => setEnrollment(enroll(pr))}
+                onLeave={() => { if (confirm('Leave this program? Progress will be lost.')) { setEnrollment(null); setTrainingRange(null); } }}
+                onStart={startTraining}
+                onImport={pr => setCustomPrograms(list => [...list.filter(x => x.id !== pr.id), pr])}
+              />
+
+              {/* Rhythm Model */}
+              <TimingPanel settings={timing} onChange={setTiming} />
+
+              {/* Chunk Mode */}
+              <ChunkPanel settings={chunk} onChange={setChunk} />
+
+              {/* Text-to-Speech */}
+              <NarrationPanel settings={narration} timerPaced={boundaryFallback} onChange={setNarration} />
+
+              {/* Recorded Audiobook */}
+              <AudiobookPanel
+                audioName={audioName}
+                alignment={alignment}
+                error={alignmentError}
+                position={alignment ? alignment.starts[Math.min(idx, alignment.starts.length - 1)] ?? 0 : 0}
+                onImport={onTimingMap}
+                onClear={() => setAlignment(null)}
+                onSeekAudio={t => { if (audioRef.current) audioRef.current.currentTime = t; }}
+              />
+
+              {/* Comprehension Check */}
+              <QuizPanel settings={quizSettings} onChange={setQuizSettings} />
+
+              {/* Key Bindings */}
+              <ShortcutsPanel bindings={bindings} onChange={setBindings} />
+
+              {/* Classroom Mode */}
+              <ClassroomPanel
+                settings={classSettings}
+                session={classroom}
+                error={classError}
+                onChange={setClassSettings}
+                onHost={() => startClass('host', newRoomCode())}
+                onJoin={room => startClass('student', room)}
+                onLeave={leaveClass}
+              />
             </div>
 
             {/* Launch Button */}
-            <button 
-              onClick={() => { setShowSettings(false); setIdx(0); setCurrentLoop(1); setPlaying(true); }} 
-              className="group relative w-full overflow-hidden py-8 md:py-12 bg-white text-black font-black rounded-[1.5rem] md:rounded-[2.5rem] text-2xl md:text-4xl hover:scale-[1.01] transition-all active:scale-[0.98] shadow-2xl uppercase tracking-tighter italic"
-            >
-              <div className="relative z-10 flex items-center justify-center gap-4">
-                Engage Engine
-                <svg className="w-8 h-8 md:w-10 md:h-10 transform group-hover:translate-x-2 transition-transform shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
-              </div>
-            </button>
+            {!isStudent && idx > 0 && unitIdx < units.length - 1 && (
+              <button 
+                onClick={() => { setShowSettings(false); setPlaying(true); }} 
+                className="w-full py-5 md:py-6 glass rounded-[1.5rem] md:rounded-[2.5rem] text-[10px] font-black uppercase tracking-[0.4em] text-green-400 hover:bg-white/10 transition-all active:scale-[0.98]"
+              >
+                Resume at word {idx + 1} of {words.length}{looping ? ` · Cycle ${currentLoop}` : ''}
+              </button>
+            )}
+            {!isStudent && (
+              <button 
+                onClick={() => { endSession(false); setTrainingRange(null); setShowSettings(false); setIdx(0); setCurrentLoop(1); setPlaying(true); }} 
+                className="group relative w-full overflow-hidden py-8 md:py-12 bg-white text-black font-black rounded-[1.5rem] md:rounded-[2.5rem] text-2xl md:text-4xl hover:scale-[1.01] transition-all active:scale-[0.98] shadow-2xl uppercase tracking-tighter italic"
+              >
+                <div className="relative z-10 flex items-center justify-center gap-4">
+                  Engage Engine
+                  <svg className="w-8 h-8 md:w-10 md:h-10 transform group-hover:translate-x-2 transition-transform shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
+                </div>
+              </button>
+            )}
             
             <p className="text-center text-[10px] font-black text-zinc-700 uppercase tracking-[0.8em] py-4">Tim the Teacher</p>
           </div>
         </div>
       )}
 
+      {/* --- LIBRARY --- */}
+      {showLibrary && (
+        <LibraryPanel
+          docs={docs}
+          activeId={docId}
+          onOpen={doc => { openDoc(doc); setShowLibrary(false); setShowSettings(true); }}
+          onRename={renameDoc}
+          onDelete={removeDoc}
+          onNew={newDoc}
+          onEditQuiz={setQuizDoc}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {showStats && <StatsDashboard onClose={() => setShowStats(false)} />}
+
+      {quizDoc && <QuizEditor doc={quizDoc} onSave={saveQuestions} onClose={() => setQuizDoc(null)} />}
+
+      {activeQuiz && (
+        <QuizModal
+          title={activeQuiz.title}
+          questions={activeQuiz.questions}
+          wpm={activeQuiz.wpm}
+          onDone={finishQuiz}
+          onSkip={() => finishQuiz(0, 0)}
+        />
+      )}
+
+      {showToc && (
+        <TocPanel
+          sections={model.sections}
+          idx={idx}
+          totalWords={words.length}
+          onJump={i => { seek(i); setShowToc(false); }}
+          onClose={() => setShowToc(false)}
+        />
+      )}
+
+      {pendingBook && (
+        <ChapterPicker book={pendingBook} onPick={loadImported} onClose={() => setPendingBook(null)} />
+      )}
+
+      {scanPages && (
+        <OcrReview
+          tokens={scanDraft}
+          pages={scanPages.length}
+          language={language}
+          onAddPages={scanImages}
+          onDiscard={() => { if (confirm('Discard this scan?')) setScanPages(null); }}
+          onConfirm={saveScan}
+        />
+      )}
+
       {/* --- OCR OVERLAY --- */}
       {isScanning && (
         <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-3xl flex flex-col items-center justify-center p-12 text-center">
@@ -379,10 +1553,20 @@ const App = () => {
             <div className="absolute inset-0 border-4 border-t-blue-500 rounded-full animate-spin shadow-[0_0_20px_#3b82f6]" />
           </div>
           <h2 className="text-4xl md:text-5xl font-black italic tracking-tighter uppercase text-white mb-2">Analyzing</h2>
-          <p className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.4em]">Digitizing Physical Source</p>
+          <p className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.4em]">Digitizing Physical Source · {languageInfo(language).label}</p>
           <div className="w-56 md:w-64 h-1 bg-zinc-900 rounded-full mt-10 md:mt-12 overflow-hidden border border-white/5">
             <div className="h-full bg-blue-500 transition-all shadow-[0_0_15px_#3b82f6]" style={{ width: `${scanProgress * 100}%` }} />
           </div>
+          <p className="text-zinc-600 text-[9px] font-black uppercase tracking-widest mt-4 h-3">{scanStatus}</p>
+          <button onClick={() => scanAbort.current?.abort()} className="mt-10 px-8 py-3 glass rounded-2xl text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all active:scale-95">Cancel</button>
+        </div>
+      )}
+
+      {scanError && (
+        <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-3xl flex flex-col items-center justify-center p-12 text-center">
+          <h2 className="text-4xl md:text-5xl font-black italic tracking-tighter uppercase text-white mb-4">Scan Failed</h2>
+          <p className="max-w-md text-sm font-bold text-red-300 leading-relaxed">{scanError}</p>
+          <button onClick={() => setScanError(null)} className="mt-10 px-8 py-3 bg-white text-black rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95">Dismiss</button>
         </div>
       )}
     </div>
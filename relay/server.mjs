@@ -0,0 +1,139 @@
+// Classroom relay: a dependency-free WebSocket server that forwards every message a client
+// sends to the other clients in the same room. It never inspects message contents.
+//
+//   PORT=8787 node relay/server.mjs
+//
+// Clients connect to ws://host:PORT/?room=CODE. Put it behind a TLS proxy for wss://.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Documents travel through the relay, so allow book-sized messages
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+const ROOM_PATTERN = /^[A-Z0-9]{4,12}$/;
+
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+/** @type {Map<string, Set<import('node:net').Socket>>} */
+const rooms = new Map();
+
+const encodeFrame = (opcode, payload) => {
+  const len = payload.length;
+  const header = len < 126 ? Buffer.alloc(2) : len < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (len < 126) header[1] = len;
+  else if (len < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(len, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Parse as many complete client frames as `buffer` holds; returns the unconsumed rest
+const readFrames = (buffer, onFrame) => {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let len = buffer[offset + 1] & 0x7f;
+    let pos = offset + 2;
+    if (len === 126) {
+      if (buffer.length < pos + 2) break;
+      len = buffer.readUInt16BE(pos);
+      pos += 2;
+    } else if (len === 127) {
+      if (buffer.length < pos + 8) break;
+      len = Number(buffer.readBigUInt64BE(pos));
+      pos += 8;
+    }
+    if (len > MAX_MESSAGE_BYTES) throw new Error('Message too large');
+    const maskEnd = pos + (masked ? 4 : 0);
+    if (buffer.length < maskEnd + len) break;
+    const payload = Buffer.from(buffer.subarray(maskEnd, maskEnd + len));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[pos + (i & 3)];
+    }
+    onFrame(fin, opcode, payload);
+    offset = maskEnd + len;
+  }
+  return buffer.subarray(offset);
+};
+
+const leave = (room, socket) => {
+  const members = rooms.get(room);
+  if (!members) return;
+  members.delete(socket);
+  if (members.size === 0) rooms.delete(room);
+};
+
+const server = createServer((req, res) => {
+  // Plain HTTP is a health check
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(`Speed Reader classroom relay · ${rooms.size} active ${rooms.size === 1 ? 'room' : 'rooms'}\n`);
+});
+
+server.on('upgrade', (req, socket) => {
+  const room = new URL(req.url || '/', 'http://relay').searchParams.get('room') || '';
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket' || !ROOM_PATTERN.test(room)) {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  const members = rooms.get(room) || new Set();
+  rooms.set(room, members);
+  members.add(socket);
+
+  let pending = Buffer.alloc(0);
+  let fragments = [];
+  const relay = (payload) => {
+    const frame = encodeFrame(OP_TEXT, payload);
+    members.forEach(peer => { if (peer !== socket && peer.writable) peer.write(frame); });
+  };
+
+  socket.on('data', (chunk) => {
+    pending = Buffer.concat([pending, chunk]);
+    try {
+      pending = readFrames(pending, (fin, opcode, payload) => {
+        if (opcode === OP_TEXT || opcode === OP_CONTINUATION) {
+          fragments.push(payload);
+          if (!fin) return;
+          const message = Buffer.concat(fragments);
+          fragments = [];
+          if (message.length > MAX_MESSAGE_BYTES) throw new Error('Message too large');
+          relay(message);
+        } else if (opcode === OP_PING) {
+          socket.write(encodeFrame(OP_PONG, payload));
+        } else if (opcode === OP_CLOSE) {
+          socket.end(encodeFrame(OP_CLOSE, Buffer.alloc(0)));
+        }
+      });
+    } catch {
+      socket.destroy();
+    }
+  });
+  socket.on('close', () => leave(room, socket));
+  socket.on('error', () => leave(room, socket));
+});
+
+server.listen(PORT, () => {
+  console.log(`Classroom relay listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,100 @@
+// Runs each extractor against the sample files in fixtures/importers and compares the result
+// with what the reader should receive. The browser's DOMParser is stood in for by linkedom, and
+// pdf.js by a stub that serves the text layer recorded in sample.pdf.json.
+//
+//   npm run check:importers
+
+import { readFileSync } from 'node:fs';
+import { deepStrictEqual } from 'node:assert/strict';
+import { DOMParser } from 'linkedom';
+import { ImportedText } from '../types';
+import { PdfJs, extractEpub, extractHtml, extractMarkdown, extractPdf, extractPlainText } from '../utils/importers';
+
+const FIXTURES = new URL('../fixtures/importers/', import.meta.url);
+const readFixture = (name: string) => readFileSync(new URL(name, FIXTURES));
+const parser = new DOMParser() as unknown as globalThis.DOMParser;
+
+// Text runs are [y, text] pairs, one line each; a marked-content item leads every page as in real files
+const stubPdfJs = (sample: { title: string; pages: [number, string][][] }): PdfJs => ({
+  getDocument: () => ({
+    promise: Promise.resolve({
+      numPages: sample.pages.length,
+      getPage: async n => ({
+        getTextContent: async () => ({
+          items: [{ type: 'beginMarkedContent' }, ...sample.pages[n - 1].map(([y, str]) => ({ str, transform: [1, 0, 0, 1, 72, y] }))],
+        }),
+      }),
+      getMetadata: async () => ({ info: { Title: sample.title } }),
+    }),
+  }),
+});
+
+const cases: { name: string; run: () => ImportedText | Promise<ImportedText>; expected: ImportedText }[] = [
+  {
+    // Mid-page numbers stay, compounds keep their hyphen, formulas keep their superscripts
+    name: 'sample.txt',
+    run: () => extractPlainText(readFixture('sample.txt').toString(), 'sample.txt'),
+    expected: {
+      title: 'sample',
+      text: 'The Reading Room\n\nOrwell finished the novel in\n1984\nwas not the year he wrote it, and the well-known title came late. The example shows a broken word.\n\nEinstein wrote E=mc² on a postcard.',
+      chapters: [],
+    },
+  },
+  {
+    // Lists and quotes stay paragraphs of their own
+    name: 'sample.md',
+    run: () => extractMarkdown(readFixture('sample.md').toString(), 'sample.md'),
+    expected: {
+      title: 'Field Notes',
+      text: 'Field Notes\n\nA paragraph with a link and bold text.\n\nfirst point\nsecond point\n\nA quoted line.',
+      chapters: [],
+    },
+  },
+  {
+    name: 'sample.html',
+    run: () => extractHtml(readFixture('sample.html').toString(), 'sample.html', parser),
+    expected: {
+      title: 'Harbour Lights',
+      text: 'Harbour Lights\n\nThe boats came in at dusk. Nobody waited on the 4th pier.\n\nSecond paragraph\non two lines.',
+      chapters: [],
+    },
+  },
+  {
+    // Non-linear cover skipped, note references and page breaks dropped, titles from the nav document
+    name: 'sample.epub',
+    run: () => {
+      const bytes = readFixture('sample.epub');
+      return extractEpub(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength), 'sample.epub', parser);
+    },
+    expected: {
+      title: 'Two Short Chapters',
+      text: 'Chapter One\n\nThey left before sunrise.\n\nThe road was long.\n\nChapter Two\n\nThey came home at night.',
+      chapters: [
+        { title: 'The Departure', text: 'Chapter One\n\nThey left before sunrise.\n\nThe road was long.' },
+        { title: 'The Return', text: 'Chapter Two\n\nThey came home at night.' },
+      ],
+    },
+  },
+  {
+    // Running headers and edge page numbers go; the mid-page "1984", "mc²" and "well-known" stay
+    name: 'sample.pdf.json',
+    run: () => extractPdf(new ArrayBuffer(0), 'sample.pdf', stubPdfJs(JSON.parse(readFixture('sample.pdf.json').toString()))),
+    expected: {
+      title: 'The Quiet Harbour',
+      text: 'Boats came in at dusk and the harbour filled with light. The nets\nwere hung to dry.\n\nOrwell wrote\n1984\nfar from here.\n\nEinstein wrote E=mc² on a\npostcard. A well-known story.\n\nThe end of the book.',
+      chapters: [],
+    },
+  },
+];
+
+let failed = 0;
+for (const { name, run, expected } of cases) {
+  try {
+    deepStrictEqual(await run(), expected);
+    console.log(`ok    ${name}`);
+  } catch (err) {
+    failed++;
+    console.log(`FAIL  ${name}\n${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+process.exitCode = failed ? 1 : 0;
@@ -1,4 +1,4 @@
-const CACHE_NAME = 'speed-reader-v5';
+const CACHE_NAME = 'speed-reader-v6';
 const ASSETS = [
   './',
   'index.html',
@@ -7,6 +7,8 @@ const ASSETS = [
   'https://img.icons8.com/fluency/512/speedometer.png',
   'https://cdn.tailwindcss.com',
   'https://unpkg.com/tesseract.js@v5.1.0/dist/tesseract.min.js',
+  'https://unpkg.com/pdfjs-dist@3.11.174/build/pdf.min.js',
+  'https://unpkg.com/pdfjs-dist@3.11.174/build/pdf.worker.min.js',
   'https://unpkg.com/@babel/standalone/babel.min.js',
   'https://fonts.googleapis.com/css2?family=Poppins:wght@400;500;700&family=Inter:wght@400;700;900&display=swap'
 ];
@@ -0,0 +1,319 @@
+// --- LIBRARY ---
+export type DocumentSource = 'pasted' | 'ocr' | 'file';
+
+export interface LibraryDocument {
+  id: string;
+  title: string;
+  source: DocumentSource;
+  text: string;
+  wordCount: number;
+  addedAt: number;
+  updatedAt: number;
+  // Resume position: word index within the text and the loop it was reached in
+  lastIdx: number;
+  lastLoop: number;
+  // Teacher-authored comprehension questions for this document
+  questions?: QuizQuestion[];
+  // BCP 47 code driving OCR, word segmentation and text direction; guessed from the text when absent
+  language?: string;
+}
+
+// --- IMPORT ---
+export interface ImportedChapter {
+  title: string;
+  text: string;
+}
+
+export interface ImportedText {
+  title: string;
+  text: string;
+  // Only populated for formats with a real chapter structure (EPUB)
+  chapters: ImportedChapter[];
+}
+
+// --- DOCUMENT MODEL ---
+// Spans are half-open [start, end) ranges of word indices in the flat `words` stream.
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export interface DocParagraph extends Span {
+  sentences: Span[];
+  isHeading: boolean;
+}
+
+export interface DocSection extends Span {
+  title: string;
+  paragraphs: DocParagraph[];
+}
+
+export interface DocModel {
+  words: string[];
+  sections: DocSection[];
+  // Flattened views of the hierarchy, in reading order, for navigation
+  paragraphs: DocParagraph[];
+  sentences: Span[];
+}
+
+// --- TIMING ---
+export type TimingPreset = 'classic' | 'adaptive' | 'custom';
+
+// Relative display-time factors; 1 means "no adjustment"
+export interface TimingMultipliers {
+  sentenceEnd: number;
+  clauseEnd: number;
+  paragraphEnd: number;
+  longWord: number;   // extra factor per character beyond 6
+  shortWord: number;  // words of 3 characters or fewer
+  number: number;
+  hyphenated: number;
+  acronym: number;
+  quote: number;
+}
+
+export interface TimingSettings {
+  preset: TimingPreset;
+  multipliers: TimingMultipliers;
+}
+
+// --- CHUNKING ---
+export interface ChunkSettings {
+  enabled: boolean;
+  // 'words': at most `size` words per chunk; 'chars': at most `chars` characters per chunk
+  mode: 'words' | 'chars';
+  size: number;
+  chars: number;
+}
+
+// --- ANALYTICS ---
+export interface ReadingSession {
+  id: string;
+  docId: string | null;
+  docTitle: string;
+  startedAt: number;
+  endedAt: number;
+  wordsRead: number;
+  // Time words were actually on screen, excluding pauses
+  activeMs: number;
+  avgWpm: number;
+  peakWpm: number;
+  pauses: number;
+  rewinds: number;
+  loopsCompleted: number;
+  completed: boolean;
+  // Comprehension check results (both 0 when no quiz was taken)
+  quizCorrect: number;
+  quizTotal: number;
+}
+
+// --- QUIZ ---
+export interface QuizQuestion {
+  id: string;
+  // Sentence with the answer replaced by "____", or a free-form teacher question
+  prompt: string;
+  answer: string;
+  // Multiple-choice options including the answer; empty means type the answer
+  options: string[];
+  source: 'cloze' | 'teacher';
+}
+
+export type QuizMode = 'off' | 'end' | 'sections';
+
+export interface QuizSettings {
+  mode: QuizMode;
+  count: number;
+}
+
+// --- SHORTCUTS ---
+export type ShortcutAction =
+  | 'togglePlay' | 'prevWord' | 'nextWord' | 'prevSentence' | 'nextSentence'
+  | 'speedUp' | 'speedDown' | 'toggleLoop' | 'toggleSettings';
+
+// Action -> key combo such as "Shift+ArrowLeft" (KeyboardEvent.code based, '' = unbound)
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+// --- TRAINING PROGRAMS ---
+export type SpeedCurve =
+  | { type: 'linear'; startWpm: number; endWpm: number }
+  | { type: 'stepped'; startWpm: number; endWpm: number; steps: number }
+  // Alternates recovery and sprint segments, `intervals` pairs in total
+  | { type: 'intervals'; baseWpm: number; sprintWpm: number; intervals: number }
+  // Ramps to `wpm` over the first `rampFraction` of the session, then holds
+  | { type: 'plateau'; startWpm: number; wpm: number; rampFraction: number };
+
+export interface TrainingDay {
+  curve: SpeedCurve;
+  loops: number;
+  // Target passage length in words (0 = whole text)
+  words: number;
+}
+
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  description: string;
+  days: TrainingDay[];
+}
+
+export interface TrainingDayResult {
+  day: number;
+  date: string; // YYYY-MM-DD
+  avgWpm: number;
+  quiz: number | null; // fraction correct, null when no check was taken
+  adjustment: number;  // speed factor applied to the following day
+}
+
+export interface TrainingEnrollment {
+  programId: string;
+  dayIndex: number;
+  // Multiplier on every WPM in the program, tuned from results
+  adjustment: number;
+  history: TrainingDayResult[];
+}
+
+// --- NARRATION ---
+export interface NarrationSettings {
+  enabled: boolean;
+  voiceURI: string | null; // null = browser default voice
+  rate: number;
+  pitch: number;
+}
+
+// --- AUDIOBOOK ALIGNMENT ---
+export interface AudioAlignment {
+  source: string;     // timing map file name
+  starts: number[];   // audio time in seconds at which each word of the text is spoken
+  duration: number;   // seconds covered by the map
+  wpm: number;        // average pace of the recording
+}
+
+// --- LANGUAGES ---
+export interface LanguageInfo {
+  code: string;   // BCP 47, used for Intl.Segmenter and speech
+  label: string;
+  ocr: string;    // Tesseract traineddata name
+  rtl: boolean;
+  // Words are separated by spaces; otherwise Intl.Segmenter finds the word breaks
+  spaced: boolean;
+}
+
+// --- OCR ---
+export interface OcrWord {
+  text: string;
+  confidence: number; // 0–100, as reported by Tesseract
+}
+
+export interface OcrLine {
+  words: OcrWord[];
+  // First line of a paragraph as laid out on the page
+  paragraphStart: boolean;
+}
+
+export interface OcrPage {
+  name: string; // image file name
+  lines: OcrLine[];
+}
+
+// A word of the cleaned-up scan, ready for review. `id` is stable across rebuilds so
+// corrections survive pages being added.
+export interface OcrToken {
+  id: string;
+  text: string;
+  confidence: number;
+  breakAfter: boolean; // a paragraph ends after this word
+}
+
+// --- CLASSROOM ---
+export type ClassroomTransportKind = 'broadcast' | 'websocket' | 'local';
+
+export interface ClassroomSettings {
+  transport: ClassroomTransportKind;
+  relayUrl: string;
+}
+
+export interface ClassroomContent {
+  title: string;
+  text: string;
+  language: string;
+}
+
+// Everything students need to build the same display units and pace them like the host
+export interface ClassroomState {
+  wpm: number;
+  isRamping: boolean;
+  startWpm: number;
+  endWpm: number;
+  loopEnabled: boolean;
+  loopMax: number;
+  chunk: ChunkSettings;
+  timing: TimingSettings;
+}
+
+// `from` is the sender's client id; times are the sender's Date.now()
+export type ClassroomMessage =
+  | { type: 'hello'; from: string }
+  | { type: 'bye'; from: string }
+  | { type: 'end'; from: string }
+  | { type: 'content'; from: string; content: ClassroomContent }
+  | { type: 'state'; from: string; state: ClassroomState }
+  // `shownAt` is when the host put `idx` on screen, so late or repeated ticks keep their phase
+  | { type: 'tick'; from: string; idx: number; loop: number; playing: boolean; shownAt: number }
+  | { type: 'ping'; from: string; t0: number }
+  | { type: 'pong'; from: string; to: string; t0: number; hostTime: number };
+
+export interface ClassroomSession {
+  role: 'host' | 'student';
+  room: string;
+  connected: boolean;
+  students: number; // host only
+  title: string; // student only: the host's document
+}
+
+export interface ClassroomTransport {
+  send: (message: ClassroomMessage) => void;
+  // Returns an unsubscribe function
+  subscribe: (handler: (message: ClassroomMessage) => void) => () => void;
+  // Connection changes; transports that can't drop report `true` once
+  onStatus: (handler: (connected: boolean) => void) => () => void;
+  close: () => void;
+}
+
+// --- PRESETS ---
+// Reader configuration persisted across reloads and captured by presets
+export interface ReaderSettings {
+  wpm: number;
+  isRamping: boolean;
+  startWpm: number;
+  endWpm: number;
+  loopEnabled: boolean;
+  loopMax: number; // 0 for infinite
+  fontSize: number;
+  autoFontSize: boolean;
+}
+
+export interface PresetConfig {
+  reader: ReaderSettings;
+  chunk: ChunkSettings;
+  timing: TimingSettings;
+}
+
+export interface SessionPreset extends PresetConfig {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// A deep link: whatever settings it carries plus optional content. Invalid parameters are
+// dropped and described in `ignored` rather than reaching the engine.
+export interface SessionLink {
+  name: string | null;
+  reader: Partial<ReaderSettings>;
+  chunk: ChunkSettings | null;
+  timing: TimingSettings | null;
+  text: string | null;
+  title: string | null;
+  docId: string | null;
+  language: string | null;
+  ignored: string[];
+}
@@ -0,0 +1,167 @@
+import { AudioAlignment } from '../types';
+import { splitWords } from './textUtils';
+import { normalizeAnswer } from './quiz';
+
+export const TIMING_MAP_ACCEPT = '.srt,.vtt,.json';
+
+// Share of transcript words allowed to differ from the text (OCR slips, spelling variants)
+const MAX_MISMATCH = 0.25;
+
+const fail = (msg: string): never => { throw new Error(`Invalid timing map: ${msg}`); };
+
+// A stretch of audio; `text` is null when a JSON entry only carries times (one word each)
+interface Segment { start: number; end: number | null; text: string | null; label: string }
+interface TimedWord { start: number; text: string | null }
+
+// "01:02:03,450", "02:03.450" or "02:03" → seconds
+export const parseTimestamp = (value: string): number | null => {
+  const m = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!m) return null;
+  const [, h, min, sec, frac] = m;
+  return (h ? parseInt(h) * 3600 : 0) + parseInt(min) * 60 + parseInt(sec) + (frac ? parseInt(frac.padEnd(3, '0')) / 1000 : 0);
+};
+
+// --- SUBTITLES (SRT / WebVTT) ---
+const INLINE_TIME = /<((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})>/g;
+const stripTags = (s: string) => s.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>');
+
+// WebVTT karaoke cues carry <00:00:01.200> before each word; split a cue at those marks
+const splitInlineTimes = (body: string, start: number, end: number, label: string): Segment[] => {
+  const parts: Segment[] = [];
+  let cursor = 0;
+  let at = start;
+  for (const m of body.matchAll(INLINE_TIME)) {
+    const time = parseTimestamp(m[1]);
+    if (time === null) fail(`${label} has an unreadable inline timestamp "${m[1]}".`);
+    parts.push({ start: at, end: time, text: stripTags(body.slice(cursor, m.index)), label });
+    cursor = m.index! + m[0].length;
+    at = time!;
+  }
+  parts.push({ start: at, end, text: stripTags(body.slice(cursor)), label });
+  return parts.filter(p => splitWords(p.text!).length > 0);
+};
+
+const parseCues = (raw: string): Segment[] => {
+  const lines = raw.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const segments: Segment[] = [];
+  let cue = 0;
+  let i = 0;
+  while (i < lines.length) {
+    // Gather one block: a run of non-blank lines
+    while (i < lines.length && !lines[i].trim()) i++;
+    const first = i;
+    const block: string[] = [];
+    while (i < lines.length && lines[i].trim()) block.push(lines[i++]);
+    if (block.length === 0) break;
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(block[0])) continue;
+
+    cue++;
+    const timeLine = block.findIndex(l => l.includes('-->'));
+    const label = `cue ${cue} (line ${first + Math.max(0, timeLine) + 1})`;
+    if (timeLine < 0 || timeLine > 1) fail(`${label} has no "start --> end" time range.`);
+    const [from, rest] = block[timeLine].split('-->');
+    const start = parseTimestamp(from);
+    const end = parseTimestamp(rest.trim().split(/\s+/)[0]); // WebVTT cue settings follow the end time
+    if (start === null || end === null) fail(`${label} has an unreadable time range "${block[timeLine].trim()}".`);
+    if (end! < start!) fail(`${label} ends before it starts.`);
+    segments.push(...splitInlineTimes(block.slice(timeLine + 1).join('\n'), start!, end!, label));
+  }
+  if (segments.length === 0) fail('no cues with text were found.');
+  return segments;
+};
+
+// --- JSON WORD LISTS ---
+// Accepts [{ "word": "Hello", "start": 0.42, "end": 0.7 }, ...] or { "words": [...] }; times in seconds
+const parseJsonMap = (raw: string): Segment[] => {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return fail('the file is not valid JSON.');
+  }
+  const list = Array.isArray(data) ? data : data?.words;
+  if (!Array.isArray(list) || list.length === 0) fail('expected a non-empty array of { word, start } entries.');
+  return list.map((entry: any, i: number) => {
+    const label = `entry ${i + 1}`;
+    if (typeof entry?.start !== 'number' || !isFinite(entry.start) || entry.start < 0) fail(`${label} needs a numeric "start" time in seconds.`);
+    if (entry.end !== undefined && (typeof entry.end !== 'number' || entry.end < entry.start)) fail(`${label} has an invalid "end" time.`);
+    const text = entry.word ?? entry.text;
+    if (text !== undefined && typeof text !== 'string') fail(`${label} has a non-text "word".`);
+    return { start: entry.start, end: entry.end ?? null, text: text ?? null, label };
+  });
+};
+
+// --- WORD TIMES ---
+// Spread a segment's words over its duration in proportion to their length
+const expandSegments = (segments: Segment[], language?: string): TimedWord[] => {
+  const timed: TimedWord[] = [];
+  segments.forEach((seg, i) => {
+    const prev = segments[i - 1];
+    if (prev && seg.start < prev.start) fail(`${seg.label} starts before ${prev.label}.`);
+    if (seg.text === null) {
+      timed.push({ start: seg.start, text: null });
+      return;
+    }
+    const words = splitWords(seg.text, language);
+    const end = seg.end ?? segments[i + 1]?.start ?? seg.start + words.length * 0.3;
+    const total = words.reduce((a, w) => a + w.length + 1, 0);
+    let at = seg.start;
+    words.forEach(w => {
+      timed.push({ start: at, text: w });
+      at += ((end - seg.start) * (w.length + 1)) / total;
+    });
+  });
+  return timed;
+};
+
+const firstDifference = (timed: TimedWord[], words: string[]) => {
+  const n = Math.min(timed.length, words.length);
+  for (let i = 0; i < n; i++) {
+    const t = timed[i].text;
+    if (t !== null && normalizeAnswer(t) !== normalizeAnswer(words[i])) return ` They first differ at word ${i + 1}: "${t}" in the map, "${words[i]}" in the text.`;
+  }
+  return '';
+};
+
+// Parse an SRT, WebVTT or JSON timing map and match it word-for-word against the text
+export const parseTimingMap = (raw: string, fileName: string, words: string[], language?: string): AudioAlignment => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  const segments = ext === 'json' || /^\s*[[{]/.test(raw) ? parseJsonMap(raw) : parseCues(raw);
+  const timed = expandSegments(segments, language);
+
+  if (timed.length !== words.length) {
+    fail(`it covers ${timed.length} words but the text has ${words.length}.${firstDifference(timed, words)}`);
+  }
+  let compared = 0;
+  let mismatched = 0;
+  timed.forEach((t, i) => {
+    if (t.text === null) return;
+    compared++;
+    if (normalizeAnswer(t.text) !== normalizeAnswer(words[i])) mismatched++;
+  });
+  if (compared > 0 && mismatched / compared > MAX_MISMATCH) {
+    fail(`its transcript does not match this text (${mismatched} of ${compared} words differ).${firstDifference(timed, words)}`);
+  }
+
+  const last = segments[segments.length - 1];
+  const duration = Math.max(last.end ?? last.start, timed[timed.length - 1].start);
+  return {
+    source: fileName,
+    starts: timed.map(t => t.start),
+    duration,
+    wpm: duration > 0 ? Math.round(words.length / (duration / 60)) : 0,
+  };
+};
+
+// Index of the word being spoken at audio time `t`
+export const wordAtTime = (alignment: AudioAlignment, t: number): number => {
+  const { starts } = alignment;
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
@@ -0,0 +1,52 @@
+import { ChunkSettings, DocModel, Span } from '../types';
+
+export const DEFAULT_CHUNK: ChunkSettings = { enabled: false, mode: 'words', size: 3, chars: 18 };
+
+// Words that lean on what follows them; a chunk never ends on one of these
+const BINDING_WORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'my', 'your', 'his', 'her', 'its', 'our', 'their',
+  'of', 'in', 'on', 'at', 'to', 'for', 'from', 'by', 'with', 'about', 'into', 'onto', 'over', 'under',
+  'after', 'before', 'between', 'through', 'during', 'without', 'within', 'among', 'against', 'toward',
+  'towards', 'upon', 'across', 'behind', 'beyond', 'near', 'like', 'per', 'via',
+  'and', 'or', 'but', 'nor', 'if', 'as', 'than', 'very', 'not', 'no',
+]);
+
+const isBinding = (word: string) => BINDING_WORDS.has(word.toLowerCase().replace(/[^\p{L}']/gu, ''));
+const hasBreakPunctuation = (word: string) => /[.,;:!?…—–)\]"”，、。；：！？」』،؛؟]$/.test(word);
+
+// Group the word stream into display units. Chunks never cross sentence boundaries, close after
+// punctuation, and hand trailing articles/prepositions over to the next chunk. With chunking off
+// every word is its own unit.
+export const buildUnits = (doc: DocModel, settings: ChunkSettings): Span[] => {
+  const { words } = doc;
+  if (!settings.enabled) return words.map((_, i) => ({ start: i, end: i + 1 }));
+
+  const units: Span[] = [];
+  const limitWords = settings.mode === 'words' ? Math.max(1, settings.size) : Infinity;
+  const limitChars = settings.mode === 'chars' ? Math.max(1, settings.chars) : Infinity;
+  const width = (start: number, end: number) => words.slice(start, end).join(' ').length;
+
+  doc.sentences.forEach(sentence => {
+    let start = sentence.start;
+    for (let i = sentence.start; i < sentence.end; i++) {
+      const end = i + 1;
+      if (end === sentence.end || hasBreakPunctuation(words[i])) {
+        units.push({ start, end });
+        start = end;
+        continue;
+      }
+      const full = end - start >= limitWords || width(start, end + 1) > limitChars;
+      if (!full) continue;
+      let cut = end;
+      while (cut > start && isBinding(words[cut - 1])) cut--;
+      if (cut === start) continue; // only function words so far: let the chunk overflow
+      units.push({ start, end: cut });
+      start = cut;
+    }
+  });
+  return units;
+};
+
+// Words of unspaced scripts (Chinese, Japanese, Thai) are shown with an empty joiner
+export const unitText = (words: string[], unit: Span | undefined, joiner = ' ') =>
+  unit ? words.slice(unit.start, unit.end).join(joiner) : '';
@@ -0,0 +1,202 @@
+import { ClassroomMessage, ClassroomSettings, ClassroomTransport, ClassroomTransportKind } from '../types';
+
+export const DEFAULT_CLASSROOM: ClassroomSettings = { transport: 'broadcast', relayUrl: 'ws://localhost:8787' };
+
+export const TRANSPORT_LABELS: Record<ClassroomTransportKind, string> = {
+  broadcast: 'This Device',
+  websocket: 'Relay Server',
+  local: 'Loopback Test',
+};
+
+// The loopback only links a host and students inside one page, so only dev builds offer it
+export const AVAILABLE_TRANSPORTS = (Object.keys(TRANSPORT_LABELS) as ClassroomTransportKind[])
+  .filter(kind => kind !== 'local' || !!(import.meta as any).env?.DEV);
+
+// --- ROOM CODES ---
+// No 0/O or 1/I, so codes read out loud or off a projector are unambiguous
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const ROOM_CODE_LENGTH = 5;
+
+export const newRoomCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(ROOM_CODE_LENGTH));
+  return Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+};
+
+export const normalizeRoomCode = (input: string) => input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const isRoomCode = (code: string) =>
+  code.length === ROOM_CODE_LENGTH && [...code].every(c => CODE_ALPHABET.includes(c));
+
+// --- TRANSPORTS ---
+type Handler = (message: ClassroomMessage) => void;
+
+// Shared bookkeeping for transports: fan messages and status out to subscribers
+const createListeners = () => {
+  const handlers = new Set<Handler>();
+  const statusHandlers = new Set<(connected: boolean) => void>();
+  let connected = false;
+  return {
+    emit: (message: ClassroomMessage) => handlers.forEach(h => h(message)),
+    setStatus: (value: boolean) => {
+      connected = value;
+      statusHandlers.forEach(h => h(value));
+    },
+    subscribe: (handler: Handler) => {
+      handlers.add(handler);
+      return () => { handlers.delete(handler); };
+    },
+    onStatus: (handler: (connected: boolean) => void) => {
+      statusHandlers.add(handler);
+      handler(connected);
+      return () => { statusHandlers.delete(handler); };
+    },
+    clear: () => {
+      handlers.clear();
+      statusHandlers.clear();
+    },
+  };
+};
+
+// Tabs and windows of one browser on the same device
+export const broadcastTransport = (room: string): ClassroomTransport => {
+  const channel = new BroadcastChannel(`sr-classroom-${room}`);
+  const listeners = createListeners();
+  channel.onmessage = e => listeners.emit(e.data);
+  listeners.setStatus(true);
+  return {
+    send: message => channel.postMessage(message),
+    subscribe: listeners.subscribe,
+    onStatus: listeners.onStatus,
+    close: () => {
+      listeners.clear();
+      channel.close();
+    },
+  };
+};
+
+// In-memory stand-in for a network within one page, with optional latency. Lets a host and
+// students be wired up in a single tab while developing or testing.
+const loopbackRooms = new Map<string, Set<Handler>>();
+
+export const localTransport = (room: string, latencyMs = 0): ClassroomTransport => {
+  const members = loopbackRooms.get(room) || new Set<Handler>();
+  loopbackRooms.set(room, members);
+  const listeners = createListeners();
+  const deliver: Handler = message => listeners.emit(message);
+  members.add(deliver);
+  listeners.setStatus(true);
+  return {
+    send: message => {
+      // Structured clone mimics a real channel: receivers never share the sender's objects
+      const copy = structuredClone(message);
+      members.forEach(m => { if (m !== deliver) window.setTimeout(() => m(copy), latencyMs); });
+    },
+    subscribe: listeners.subscribe,
+    onStatus: listeners.onStatus,
+    close: () => {
+      listeners.clear();
+      members.delete(deliver);
+      if (members.size === 0) loopbackRooms.delete(room);
+    },
+  };
+};
+
+const RECONNECT_MAX_MS = 10000;
+
+// Self-hosted relay (see relay/server.mjs) that forwards every message to the rest of the room.
+// Resolves once connected; drops afterwards are retried with backoff and reported via onStatus.
+export const websocketTransport = (relayUrl: string, room: string): Promise<ClassroomTransport> => {
+  let url: URL;
+  try {
+    url = new URL(relayUrl);
+  } catch {
+    return Promise.reject(new Error(`"${relayUrl}" is not a valid relay address.`));
+  }
+  if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+    return Promise.reject(new Error('The relay address must start with ws:// or wss://.'));
+  }
+  url.searchParams.set('room', room);
+
+  const listeners = createListeners();
+  let socket: WebSocket;
+  let closed = false;
+  let retryMs = 1000;
+  let retryTimer: number | undefined;
+
+  return new Promise((resolve, reject) => {
+    let opened = false;
+    const connect = () => {
+      socket = new WebSocket(url);
+      socket.onopen = () => {
+        retryMs = 1000;
+        listeners.setStatus(true);
+        if (!opened) {
+          opened = true;
+          resolve(transport);
+        }
+      };
+      socket.onmessage = e => {
+        try {
+          listeners.emit(JSON.parse(e.data));
+        } catch {
+          console.warn('Ignoring malformed classroom message');
+        }
+      };
+      socket.onclose = () => {
+        if (closed) return;
+        if (!opened) {
+          reject(new Error(`Couldn't reach the classroom relay at ${relayUrl}.`));
+          return;
+        }
+        listeners.setStatus(false);
+        retryTimer = window.setTimeout(connect, retryMs);
+        retryMs = Math.min(retryMs * 2, RECONNECT_MAX_MS);
+      };
+    };
+
+    const transport: ClassroomTransport = {
+      send: message => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      },
+      subscribe: listeners.subscribe,
+      onStatus: listeners.onStatus,
+      close: () => {
+        closed = true;
+        window.clearTimeout(retryTimer);
+        listeners.clear();
+        socket.close();
+      },
+    };
+    connect();
+  });
+};
+
+export const openTransport = async (settings: ClassroomSettings, room: string): Promise<ClassroomTransport> => {
+  switch (settings.transport) {
+    case 'websocket':
+      return websocketTransport(settings.relayUrl, room);
+    case 'local':
+      return localTransport(room);
+    default:
+      if (typeof BroadcastChannel === 'undefined') throw new Error('This browser cannot link tabs. Use a relay server instead.');
+      return broadcastTransport(room);
+  }
+};
+
+// --- CLOCK SYNC ---
+// NTP-style estimate of the host clock from ping/pong round trips. The sample with the
+// shortest round trip wins, since its midpoint guess is the tightest.
+export const createClockSync = () => {
+  let bestRtt = Infinity;
+  let offset = 0;
+  return {
+    sample: (t0: number, hostTime: number, now = Date.now()) => {
+      const rtt = now - t0;
+      if (rtt < 0 || rtt > bestRtt) return;
+      bestRtt = rtt;
+      offset = hostTime + rtt / 2 - now;
+    },
+    hostNow: (now = Date.now()) => now + offset,
+    toLocal: (hostTime: number) => hostTime - offset,
+  };
+};
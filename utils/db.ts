@@ -0,0 +1,55 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Every persistent store is declared in `upgrade` so the schema lives in one place.
+
+const DB_NAME = 'speed-reader';
+const DB_VERSION = 2;
+
+export const STORE_DOCUMENTS = 'documents';
+export const STORE_SESSIONS = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const docs = db.createObjectStore(STORE_DOCUMENTS, { keyPath: 'id' });
+    docs.createIndex('updatedAt', 'updatedAt');
+  }
+  if (oldVersion < 2) {
+    const sessions = db.createObjectStore(STORE_SESSIONS, { keyPath: 'id' });
+    sessions.createIndex('startedAt', 'startedAt');
+    sessions.createIndex('docId', 'docId');
+  }
+};
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (e) => upgrade(req.result, e.oldVersion);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => { dbPromise = null; reject(req.error); };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Run a single request against one store and resolve with its result
+export const withStore = async <T>(
+  store: string,
+  mode: IDBTransactionMode,
+  fn: (s: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(fn(db.transaction(store, mode).objectStore(store)));
+};
+
+export const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
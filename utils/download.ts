@@ -0,0 +1,11 @@
+// Trigger a browser download for generated content
+export const downloadFile = (fileName: string, content: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
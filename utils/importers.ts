@@ -0,0 +1,349 @@
+import { ImportedText, ImportedChapter } from '../types';
+import { readZip, ZipEntry } from './zip';
+
+// Every extractor is a pure function of the file contents so it can be exercised against sample files.
+// Platform parsers (DOMParser, pdf.js) are parameters defaulting to the browser's, so the checks in
+// scripts/check-importers.ts run under Node.
+
+export const IMPORT_ACCEPT = '.txt,.text,.md,.markdown,.html,.htm,.xhtml,.epub,.pdf';
+
+export const isPageNumberLine = (line: string) => /^(page\s+)?\d{1,4}(\s+(of|\/)\s+\d{1,4})?$/i.test(line.trim());
+
+// Page furniture (numbers, running headers) only sits in the first or last lines of a page
+const EDGE_LINES = 2;
+
+// Positions of the first and last non-empty lines of a page
+const edgeIndices = <T,>(lines: T[], textOf: (line: T) => string) => {
+  const filled = lines.flatMap((l, i) => (textOf(l).trim() ? [i] : []));
+  return new Set([...filled.slice(0, EDGE_LINES), ...filled.slice(-EDGE_LINES)]);
+};
+
+// Drops page numbers from the edges of one page of lines; a "1984" mid-page is text
+export const stripPageNumbers = <T,>(lines: T[], textOf: (line: T) => string): T[] => {
+  const edges = edgeIndices(lines, textOf);
+  return lines.filter((l, i) => !(edges.has(i) && isPageNumberLine(textOf(l))));
+};
+
+// --- HYPHENATION ---
+// Compound-forming words that typesetting rarely breaks after as a mere syllable
+const COMPOUND_HEADS = new Set(['well', 'self', 'ill', 'half', 'cross']);
+
+export const vocabularyOf = (text: string) => new Set(text.toLowerCase().match(/\p{L}+(?:-\p{L}+)*/gu) || []);
+
+// Whether "head-" at a line end followed by "tail" is a real hyphenated compound. The text's
+// own vocabulary decides when it uses either form elsewhere; otherwise it is taken as a
+// syllable break ("exam-ple"), unless the head is a known compound former ("well-known").
+export const keepsHyphen = (head: string, tail: string, vocabulary: Set<string>) => {
+  const h = head.toLowerCase();
+  const t = tail.toLowerCase();
+  if (vocabulary.has(h + t)) return false;
+  return vocabulary.has(`${h}-${t}`) || COMPOUND_HEADS.has(h);
+};
+
+const LINE_BREAK_HYPHEN = /(\p{L}+)-\n[ \t]*(\p{Ll}+)/gu;
+
+const rejoinHyphenation = (text: string) => {
+  const vocabulary = vocabularyOf(text);
+  return text.replace(LINE_BREAK_HYPHEN, (_, head: string, tail: string) =>
+    keepsHyphen(head, tail, vocabulary) ? `${head}-${tail}` : head + tail);
+};
+
+// Shared post-processing: normalise whitespace, rejoin words broken across lines, drop
+// bracketed note references, and keep blank lines between paragraphs so structure survives
+// into the library.
+export const cleanText = (raw: string): string => rejoinHyphenation(
+  raw
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00ad/g, '')                                // soft hyphens
+)
+  .replace(/\[\d{1,3}\]|\[\^[\w-]+\]/g, '')
+  .split('\n')
+  .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+  .join('\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || 'Untitled';
+
+// --- PLAIN TEXT ---
+export const extractPlainText = (raw: string, fileName = 'Untitled.txt'): ImportedText => ({
+  title: baseName(fileName),
+  text: cleanText(raw),
+  chapters: [],
+});
+
+// --- MARKDOWN ---
+export const extractMarkdown = (md: string, fileName = 'Untitled.md'): ImportedText => {
+  const heading = md.match(/^[ \t]{0,3}#{1,6}[ \t]+(.+?)[ \t]*#*[ \t]*$/m);
+  const text = md
+    .replace(/^---\n[\s\S]*?\n---\n/, '')              // front matter
+    .replace(/```[\s\S]*?```|~~~[\s\S]*?~~~/g, '')      // fenced code
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/^[ \t]{0,3}\[\^[^\]]+\]:.*$/gm, '')      // footnote definitions
+    .replace(/^[ \t]{0,3}\[[^\]]+\]:[ \t]+\S+.*$/gm, '') // link reference definitions
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')               // images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')            // inline links
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')           // reference links
+    .replace(/<[^>]+>/g, '')
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+(.+?)[ \t]*#*[ \t]*$/gm, '\n$1\n')
+    .replace(/^[ \t]{0,3}(-{3,}|\*{3,}|_{3,})[ \t]*$/gm, '')
+    .replace(/^[ \t]{0,3}>[ \t]?/gm, '')
+    .replace(/^[ \t]*([-*+]|\d+[.)])[ \t]+/gm, '')
+    .replace(/^[ \t]*\|?([ \t]*:?-+:?[ \t]*\|)+[ \t]*:?-*:?[ \t]*$/gm, '') // table separators
+    .replace(/\|/g, ' ')
+    .replace(/(\*\*|__|~~)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/(^|\W)[*_](?=\S)([^*_\n]*?\S)[*_](?=\W|$)/g, '$1$2')
+    .replace(/`([^`]*)`/g, '$1');
+  return {
+    title: heading ? heading[1].replace(/[*_`]/g, '') : baseName(fileName),
+    text: cleanText(text),
+    chapters: [],
+  };
+};
+
+// --- HTML ---
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'FOOTER',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'TR', 'UL',
+]);
+
+// Non-content elements plus EPUB / DPUB-ARIA footnote references and page-break markers
+const STRIP_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'nav', 'svg', 'math', 'iframe', 'object', 'head',
+  'a[epub\\:type~="noteref"]', 'a[role="doc-noteref"]', '[epub\\:type~="footnote"]', '[epub\\:type~="endnote"]',
+  '[role="doc-footnote"]', '[role="doc-endnote"]', '[epub\\:type~="pagebreak"]', '[role="doc-pagebreak"]',
+  '.pagenum', '.page-number', '.footnote',
+].join(',');
+
+// Node type constants, so a DOM implementation other than the page's can be passed in
+const TEXT_NODE = 3;
+const ELEMENT_NODE = 1;
+
+const htmlToText = (doc: Document): string => {
+  doc.querySelectorAll(STRIP_SELECTOR).forEach(el => el.remove());
+  // Superscript numerals/symbols are footnote markers; keep longer superscripts (e.g. "th")
+  doc.querySelectorAll('sup').forEach(el => {
+    if (/^\W*[\d*†‡§]{1,3}\W*$/.test(el.textContent || '')) el.remove();
+  });
+
+  const out: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === TEXT_NODE) {
+      out.push((node.textContent || '').replace(/\s+/g, ' '));
+      return;
+    }
+    if (node.nodeType !== ELEMENT_NODE) return;
+    const tag = (node as Element).tagName.toUpperCase();
+    if (tag === 'BR') { out.push('\n'); return; }
+    const block = BLOCK_TAGS.has(tag);
+    if (block) out.push('\n\n');
+    node.childNodes.forEach(walk);
+    if (block) out.push('\n\n');
+  };
+  if (doc.body) walk(doc.body);
+  return cleanText(out.join(''));
+};
+
+const firstHeading = (doc: Document) =>
+  doc.querySelector('h1, h2, h3')?.textContent?.replace(/\s+/g, ' ').trim() || '';
+
+export const extractHtml = (html: string, fileName = 'Untitled.html', parser: DOMParser = new DOMParser()): ImportedText => {
+  const doc = parser.parseFromString(html, 'text/html');
+  const title = doc.title.trim() || firstHeading(doc) || baseName(fileName);
+  return { title, text: htmlToText(doc), chapters: [] };
+};
+
+// --- EPUB ---
+const resolvePath = (base: string, href: string) => {
+  const parts = (base.includes('/') ? base.slice(0, base.lastIndexOf('/') + 1) : '') + decodeURIComponent(href.split('#')[0]);
+  const out: string[] = [];
+  parts.split('/').forEach(seg => {
+    if (seg === '..') out.pop();
+    else if (seg && seg !== '.') out.push(seg);
+  });
+  return out.join('/');
+};
+
+const readEntry = async (entries: Map<string, ZipEntry>, path: string) => {
+  const entry = entries.get(path);
+  if (!entry) throw new Error(`EPUB is missing ${path}`);
+  return new TextDecoder().decode(await entry.read());
+};
+
+const parseXml = (parser: DOMParser, xml: string) => parser.parseFromString(xml, 'application/xml');
+
+// Map of content document path -> chapter title, from the EPUB 3 nav document or the EPUB 2 NCX
+const readTocTitles = async (parser: DOMParser, entries: Map<string, ZipEntry>, opf: Document, opfPath: string) => {
+  const titles = new Map<string, string>();
+  const items = Array.from(opf.getElementsByTagName('item'));
+  const nav = items.find(i => (i.getAttribute('properties') || '').split(/\s+/).includes('nav'));
+  const ncx = items.find(i => i.getAttribute('media-type') === 'application/x-dtbncx+xml');
+
+  if (nav) {
+    const navPath = resolvePath(opfPath, nav.getAttribute('href') || '');
+    const doc = parser.parseFromString(await readEntry(entries, navPath), 'text/html');
+    const toc = doc.querySelector('nav[epub\\:type~="toc"]') || doc.querySelector('nav');
+    toc?.querySelectorAll('a[href]').forEach(a => {
+      const path = resolvePath(navPath, a.getAttribute('href') || '');
+      if (!titles.has(path)) titles.set(path, (a.textContent || '').replace(/\s+/g, ' ').trim());
+    });
+  } else if (ncx) {
+    const ncxPath = resolvePath(opfPath, ncx.getAttribute('href') || '');
+    const doc = parseXml(parser, await readEntry(entries, ncxPath));
+    Array.from(doc.getElementsByTagName('navPoint')).forEach(point => {
+      const src = point.getElementsByTagName('content')[0]?.getAttribute('src');
+      const label = point.getElementsByTagName('text')[0]?.textContent?.replace(/\s+/g, ' ').trim();
+      if (!src || !label) return;
+      const path = resolvePath(ncxPath, src);
+      if (!titles.has(path)) titles.set(path, label);
+    });
+  }
+  return titles;
+};
+
+export const extractEpub = async (data: ArrayBuffer, fileName = 'Untitled.epub', parser: DOMParser = new DOMParser()): Promise<ImportedText> => {
+  const entries = readZip(data);
+  const container = parseXml(parser, await readEntry(entries, 'META-INF/container.xml'));
+  const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) throw new Error('EPUB container does not point to a package document.');
+
+  const opf = parseXml(parser, await readEntry(entries, opfPath));
+  const manifest = new Map<string, string>();
+  Array.from(opf.getElementsByTagName('item')).forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) manifest.set(id, resolvePath(opfPath, href));
+  });
+  const tocTitles = await readTocTitles(parser, entries, opf, opfPath);
+
+  const chapters: ImportedChapter[] = [];
+  for (const ref of Array.from(opf.getElementsByTagName('itemref'))) {
+    if (ref.getAttribute('linear') === 'no') continue;
+    const path = manifest.get(ref.getAttribute('idref') || '');
+    if (!path || !entries.has(path)) continue;
+    const doc = parser.parseFromString(await readEntry(entries, path), 'text/html');
+    const heading = firstHeading(doc);
+    const text = htmlToText(doc);
+    if (!text) continue;
+    chapters.push({ title: tocTitles.get(path) || heading || `Chapter ${chapters.length + 1}`, text });
+  }
+  if (chapters.length === 0) throw new Error('No readable chapters found in this EPUB.');
+
+  const title = opf.getElementsByTagName('dc:title')[0]?.textContent?.trim() || baseName(fileName);
+  return { title, text: chapters.map(c => c.text).join('\n\n'), chapters };
+};
+
+// --- PDF ---
+// pdf.js is loaded from the CDN like Tesseract; only PDFs with a text layer are supported.
+interface PdfTextItem { str: string; transform: number[]; hasEOL?: boolean }
+// Marked-content boundaries share the item list with text runs
+interface PdfMarkedContent { type: string; id?: string }
+
+interface PdfPage {
+  getTextContent: () => Promise<{ items: (PdfTextItem | PdfMarkedContent)[] }>;
+}
+
+interface PdfDocument {
+  numPages: number;
+  getPage: (pageNumber: number) => Promise<PdfPage>;
+  getMetadata: () => Promise<{ info?: { Title?: string } }>;
+}
+
+// The part of the pdf.js API the importer uses
+export interface PdfJs {
+  GlobalWorkerOptions?: { workerSrc: string };
+  getDocument: (source: { data: ArrayBuffer }) => { promise: Promise<PdfDocument> };
+}
+
+const isTextItem = (item: PdfTextItem | PdfMarkedContent): item is PdfTextItem =>
+  typeof (item as PdfTextItem).str === 'string';
+
+const pdfPageLines = (items: PdfTextItem[]): string[] => {
+  const lines: { y: number; text: string }[] = [];
+  let current: { y: number; text: string } | null = null;
+  items.forEach(item => {
+    const y = item.transform[5];
+    if (!current || Math.abs(current.y - y) > 2) {
+      current = { y, text: '' };
+      lines.push(current);
+    }
+    current.text += item.str;
+    if (item.hasEOL) current = null;
+  });
+
+  // A vertical gap well above the typical line spacing marks a paragraph break
+  const gaps = lines.slice(1).map((l, i) => Math.abs(lines[i].y - l.y)).filter(g => g > 0).sort((a, b) => a - b);
+  const typical = gaps[Math.floor(gaps.length / 2)] || 0;
+  const out: string[] = [];
+  lines.forEach((l, i) => {
+    if (i > 0 && typical && Math.abs(lines[i - 1].y - l.y) > typical * 1.6) out.push('');
+    out.push(l.text.trim());
+  });
+  return out.filter((l, i, arr) => l || (i > 0 && arr[i - 1]));
+};
+
+// Lines that recur (ignoring digits) at the top or bottom of most pages are running headers/footers
+export const stripRunningHeaders = <T,>(pages: T[][], textOf: (line: T) => string): T[][] => {
+  if (pages.length < 3) return pages;
+  const key = (l: T) => textOf(l).replace(/\d+/g, '#').toLowerCase();
+  const edges = pages.map(p => edgeIndices(p, textOf));
+  const counts = new Map<string, number>();
+  pages.forEach((p, pi) => new Set(Array.from(edges[pi], i => key(p[i]))).forEach(k => counts.set(k, (counts.get(k) || 0) + 1)));
+  const threshold = Math.max(2, Math.ceil(pages.length * 0.5));
+  // Only the edge lines themselves are candidates, so body text that masks the same ("1984") stays
+  return pages.map((p, pi) => p.filter((l, i) => !(edges[pi].has(i) && (counts.get(key(l)) || 0) >= threshold)));
+};
+
+// Typeset footnote markers: superscript digits right after a longer word or punctuation.
+// Short units and formulas ("m²", "mc²") keep theirs.
+const stripFootnoteMarkers = (text: string) =>
+  text.replace(/(\p{L}{3,}|[.,;:!?)"'\u201d\u2019])[\u00b9\u00b2\u00b3\u2070-\u2079]+/gu, '$1');
+
+export const extractPdf = async (
+  data: ArrayBuffer,
+  fileName = 'Untitled.pdf',
+  pdfjs: PdfJs | undefined = (globalThis as any).pdfjsLib,
+): Promise<ImportedText> => {
+  if (!pdfjs) throw new Error('PDF import requires an initial online load to cache pdf.js.');
+  if (pdfjs.GlobalWorkerOptions && !pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = 'https://unpkg.com/pdfjs-dist@3.11.174/build/pdf.worker.min.js';
+  }
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const pages: string[][] = [];
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const page = await pdf.getPage(n);
+    const content = await page.getTextContent();
+    pages.push(pdfPageLines(content.items.filter(isTextItem)));
+  }
+  // Page numbers go first, while the page's own first and last lines are still its edges
+  const body = stripRunningHeaders(pages.map(p => stripPageNumbers(p, l => l)), l => l).map(p => p.join('\n')).join('\n\n');
+  const text = cleanText(stripFootnoteMarkers(body));
+  if (!text) throw new Error('This PDF has no text layer. Photograph the pages with the scanner instead.');
+
+  const meta = await pdf.getMetadata().catch(() => null);
+  return { title: meta?.info?.Title?.trim() || baseName(fileName), text, chapters: [] };
+};
+
+// --- DISPATCH ---
+export const importFile = async (file: File): Promise<ImportedText> => {
+  const ext = file.name.split('.').pop()?.toLowerCase() || '';
+  switch (ext) {
+    case 'txt':
+    case 'text':
+      return extractPlainText(await file.text(), file.name);
+    case 'md':
+    case 'markdown':
+      return extractMarkdown(await file.text(), file.name);
+    case 'html':
+    case 'htm':
+    case 'xhtml':
+      return extractHtml(await file.text(), file.name);
+    case 'epub':
+      return extractEpub(await file.arrayBuffer(), file.name);
+    case 'pdf':
+      return extractPdf(await file.arrayBuffer(), file.name);
+    default:
+      if (file.type.startsWith('text/')) return extractPlainText(await file.text(), file.name);
+      throw new Error(`Unsupported file type: .${ext || '?'}`);
+  }
+};
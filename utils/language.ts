@@ -0,0 +1,116 @@
+import { LanguageInfo } from '../types';
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'en', label: 'English', ocr: 'eng', rtl: false, spaced: true },
+  { code: 'es', label: 'Español', ocr: 'spa', rtl: false, spaced: true },
+  { code: 'fr', label: 'Français', ocr: 'fra', rtl: false, spaced: true },
+  { code: 'de', label: 'Deutsch', ocr: 'deu', rtl: false, spaced: true },
+  { code: 'it', label: 'Italiano', ocr: 'ita', rtl: false, spaced: true },
+  { code: 'pt', label: 'Português', ocr: 'por', rtl: false, spaced: true },
+  { code: 'ru', label: 'Русский', ocr: 'rus', rtl: false, spaced: true },
+  { code: 'uk', label: 'Українська', ocr: 'ukr', rtl: false, spaced: true },
+  { code: 'el', label: 'Ελληνικά', ocr: 'ell', rtl: false, spaced: true },
+  { code: 'tr', label: 'Türkçe', ocr: 'tur', rtl: false, spaced: true },
+  { code: 'hi', label: 'हिन्दी', ocr: 'hin', rtl: false, spaced: true },
+  { code: 'ar', label: 'العربية', ocr: 'ara', rtl: true, spaced: true },
+  { code: 'fa', label: 'فارسی', ocr: 'fas', rtl: true, spaced: true },
+  { code: 'ur', label: 'اردو', ocr: 'urd', rtl: true, spaced: true },
+  { code: 'he', label: 'עברית', ocr: 'heb', rtl: true, spaced: true },
+  { code: 'zh-Hans', label: '简体中文', ocr: 'chi_sim', rtl: false, spaced: false },
+  { code: 'zh-Hant', label: '繁體中文', ocr: 'chi_tra', rtl: false, spaced: false },
+  { code: 'ja', label: '日本語', ocr: 'jpn', rtl: false, spaced: false },
+  { code: 'ko', label: '한국어', ocr: 'kor', rtl: false, spaced: true },
+  { code: 'th', label: 'ไทย', ocr: 'tha', rtl: false, spaced: false },
+];
+
+export const languageInfo = (code?: string): LanguageInfo =>
+  LANGUAGES.find(l => l.code === code) || LANGUAGES[0];
+
+// --- DETECTION ---
+// Script → language for text that arrives without a setting (pastes, legacy documents)
+const SCRIPT_GUESSES: [RegExp, string][] = [
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/gu, 'ja'],
+  [/\p{Script=Hangul}/gu, 'ko'],
+  [/\p{Script=Han}/gu, 'zh-Hans'],
+  [/\p{Script=Thai}/gu, 'th'],
+  [/\p{Script=Hebrew}/gu, 'he'],
+  [/\p{Script=Arabic}/gu, 'ar'],
+  [/\p{Script=Devanagari}/gu, 'hi'],
+  [/\p{Script=Greek}/gu, 'el'],
+  [/\p{Script=Cyrillic}/gu, 'ru'],
+];
+
+export const guessLanguage = (text: string): string => {
+  const sample = text.slice(0, 4000);
+  const letters = (sample.match(/\p{L}/gu) || []).length;
+  if (letters === 0) return DEFAULT_LANGUAGE;
+  for (const [script, code] of SCRIPT_GUESSES) {
+    const count = (sample.match(script) || []).length;
+    // Japanese mixes kana into mostly-Han text, so any real share of kana decides it
+    if (count / letters > (code === 'ja' ? 0.05 : 0.3)) return code;
+  }
+  return DEFAULT_LANGUAGE;
+};
+
+// --- SEGMENTATION ---
+const segmenters = new Map<string, Intl.Segmenter>();
+const segmenterFor = (code: string, granularity: 'word' | 'grapheme') => {
+  const key = `${code}:${granularity}`;
+  let seg = segmenters.get(key);
+  if (!seg) {
+    seg = new Intl.Segmenter(code, { granularity });
+    segmenters.set(key, seg);
+  }
+  return seg;
+};
+
+export const hasSegmenter = () => typeof Intl !== 'undefined' && 'Segmenter' in Intl;
+
+// Scripts written without spaces between words
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+// Punctuation that opens a phrase and belongs to the word after it
+const OPENING = /^[\p{Ps}\p{Pi}"'¿¡]+$/u;
+
+// Break one whitespace-delimited token of unspaced script into words. Punctuation stays
+// attached (closing marks to the word before, opening marks to the word after) so sentence
+// and clause detection keep working on the result.
+export const segmentToken = (token: string, code: string): string[] => {
+  if (!hasSegmenter() || !UNSPACED.test(token)) return [token];
+  const words: string[] = [];
+  let pending = '';
+  for (const { segment, isWordLike } of segmenterFor(code, 'word').segment(token)) {
+    if (isWordLike) {
+      words.push(pending + segment);
+      pending = '';
+    } else if (OPENING.test(segment) || words.length === 0) {
+      pending += segment;
+    } else {
+      words[words.length - 1] += segment;
+    }
+  }
+  if (pending) {
+    if (words.length) words[words.length - 1] += pending;
+    else words.push(pending);
+  }
+  return words;
+};
+
+// Characters of a string as the reader perceives them: emoji sequences and accented
+// letters built from combining marks count as one
+export const graphemes = (text: string): string[] =>
+  hasSegmenter() ? Array.from(segmenterFor(DEFAULT_LANGUAGE, 'grapheme').segment(text), s => s.segment) : Array.from(text);
+
+// --- DISPLAY ---
+const WIDE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u3000-\u303F\uFF00-\uFFEF]|\p{Extended_Pictographic}/u;
+
+// Rendered width in units of an average Latin letter; CJK and emoji are roughly square
+export const textWidth = (text: string) => graphemes(text).reduce((w, g) => w + (WIDE.test(g) ? 1.7 : 1), 0);
+
+// Joiner between consecutive words when showing them as running text
+export const wordJoiner = (code: string) => (languageInfo(code).spaced ? ' ' : '');
+
+// Tesseract puts spaces between CJK characters; unspaced scripts don't want them
+export const normalizeOcrText = (text: string, code: string) =>
+  languageInfo(code).spaced ? text : text.replace(/(?<=[^\s\x00-\x7F])[ \t]+(?=[^\s\x00-\x7F])/g, '');
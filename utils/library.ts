@@ -0,0 +1,86 @@
+import { LibraryDocument, DocumentSource } from '../types';
+import { STORE_DOCUMENTS, withStore, newId, openDb, promisify } from './db';
+import { splitWords, deriveTitle } from './textUtils';
+import { guessLanguage } from './language';
+
+const LEGACY_TEXT_KEY = 'sr_text';
+
+export const listDocuments = async (): Promise<LibraryDocument[]> => {
+  const docs = await withStore<LibraryDocument[]>(STORE_DOCUMENTS, 'readonly', s => s.getAll());
+  return docs.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getDocument = (id: string) =>
+  withStore<LibraryDocument | undefined>(STORE_DOCUMENTS, 'readonly', s => s.get(id));
+
+export const createDocument = async (
+  text: string,
+  source: DocumentSource,
+  title?: string,
+  language = guessLanguage(text)
+): Promise<LibraryDocument> => {
+  const now = Date.now();
+  const doc: LibraryDocument = {
+    id: newId(),
+    title: title?.trim() || deriveTitle(text),
+    source,
+    text,
+    wordCount: splitWords(text, language).length,
+    addedAt: now,
+    updatedAt: now,
+    lastIdx: 0,
+    lastLoop: 1,
+    language,
+  };
+  await withStore(STORE_DOCUMENTS, 'readwrite', s => s.put(doc));
+  return doc;
+};
+
+// Read and write share one transaction, so a position save and a text save to the same
+// document can't interleave and write stale fields back
+export const updateDocument = async (
+  id: string,
+  patch: Partial<Omit<LibraryDocument, 'id' | 'addedAt'>>
+): Promise<LibraryDocument | undefined> => {
+  const db = await openDb();
+  const store = db.transaction(STORE_DOCUMENTS, 'readwrite').objectStore(STORE_DOCUMENTS);
+  const doc = await promisify<LibraryDocument | undefined>(store.get(id));
+  if (!doc) return undefined;
+  const next: LibraryDocument = { ...doc, ...patch, updatedAt: Date.now() };
+  if (patch.text !== undefined || patch.language !== undefined) next.wordCount = splitWords(next.text, next.language).length;
+  await promisify(store.put(next));
+  return next;
+};
+
+export const deleteDocument = (id: string) =>
+  withStore(STORE_DOCUMENTS, 'readwrite', s => s.delete(id));
+
+// One-time move of the single localStorage buffer into the library.
+// The welcome text is not worth keeping, so it is dropped rather than migrated.
+export const migrateLegacyText = async (welcomeText: string): Promise<LibraryDocument | null> => {
+  const legacy = localStorage.getItem(LEGACY_TEXT_KEY);
+  if (legacy === null) return null;
+  let doc: LibraryDocument | null = null;
+  if (legacy.trim() && legacy !== welcomeText) {
+    doc = await createDocument(legacy, 'pasted');
+  }
+  localStorage.removeItem(LEGACY_TEXT_KEY);
+  return doc;
+};
+
+// Without IndexedDB the open text is kept under the legacy key instead, so it survives a
+// reload and migrates into the library once storage works again. `null` clears it.
+export const keepUnsavedText = (text: string | null) => {
+  if (text === null) localStorage.removeItem(LEGACY_TEXT_KEY);
+  else localStorage.setItem(LEGACY_TEXT_KEY, text);
+};
+
+export const unsavedText = () => localStorage.getItem(LEGACY_TEXT_KEY);
+
+export const documentLanguage = (doc: LibraryDocument) => doc.language || guessLanguage(doc.text);
+
+export const searchDocuments = (docs: LibraryDocument[], query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return docs;
+  return docs.filter(d => d.title.toLowerCase().includes(q) || d.text.toLowerCase().includes(q));
+};
@@ -0,0 +1,111 @@
+import { NarrationSettings, Span } from '../types';
+import { wordJoiner } from './language';
+
+export const DEFAULT_NARRATION: NarrationSettings = { enabled: false, voiceURI: null, rate: 1, pitch: 1 };
+
+// Typical speaking pace of synthesis voices at rate 1, used for stats while speech sets the pace
+const BASE_SPEECH_WPM = 170;
+// Voices that report no word boundary within this window are paced by the timer instead
+const BOUNDARY_TIMEOUT_MS = 1500;
+
+export const narrationSupported = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined';
+
+export const narrationWpm = (settings: NarrationSettings) => Math.round(BASE_SPEECH_WPM * settings.rate);
+
+// Voices load asynchronously in most browsers; resolve once the list is populated (or give up quietly)
+export const listVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!narrationSupported()) return Promise.resolve([]);
+  const synth = window.speechSynthesis;
+  const voices = synth.getVoices();
+  if (voices.length) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => {
+      synth.removeEventListener('voiceschanged', done);
+      resolve(synth.getVoices());
+    };
+    synth.addEventListener('voiceschanged', done);
+    window.setTimeout(done, 2000);
+  });
+};
+
+export interface NarrationCallbacks {
+  // Speech reached word `idx` (absolute word index)
+  onWord: (idx: number) => void;
+  onEnd: () => void;
+  // The voice reports no word positions; the caller should pace the display itself
+  onNoBoundaries: () => void;
+  onError: (error: string) => void;
+}
+
+// Index of the word whose text starts at or before `charIndex`
+const wordAt = (offsets: number[], charIndex: number) => {
+  let lo = 0;
+  let hi = offsets.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid] <= charIndex) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+// Speak words [span.start, span.end) as one utterance. Returns a cancel function; callbacks
+// never fire after cancelling, so a cancelled utterance can't move the display.
+// `language` picks the default voice when none is selected and how words are joined (no spaces
+// in Chinese, Japanese or Thai).
+export const speakSpan = (words: string[], span: Span, settings: NarrationSettings, cb: NarrationCallbacks, language?: string) => {
+  const synth = window.speechSynthesis;
+  const joiner = language ? wordJoiner(language) : ' ';
+  const offsets: number[] = [];
+  let text = '';
+  for (let i = span.start; i < span.end; i++) {
+    if (text) text += joiner;
+    offsets.push(text.length);
+    text += words[i];
+  }
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  const voice = settings.voiceURI ? synth.getVoices().find(v => v.voiceURI === settings.voiceURI) : undefined;
+  if (voice) {
+    utterance.voice = voice;
+    utterance.lang = voice.lang;
+  } else if (language) {
+    utterance.lang = language;
+  }
+  utterance.rate = settings.rate;
+  utterance.pitch = settings.pitch;
+
+  let cancelled = false;
+  let sawBoundary = false;
+  let watchdog: number | undefined;
+
+  utterance.onstart = () => {
+    if (offsets.length > 2) {
+      watchdog = window.setTimeout(() => { if (!cancelled && !sawBoundary) cb.onNoBoundaries(); }, BOUNDARY_TIMEOUT_MS);
+    }
+  };
+  utterance.onboundary = (e) => {
+    if (cancelled || (e.name && e.name !== 'word')) return;
+    sawBoundary = true;
+    cb.onWord(span.start + wordAt(offsets, e.charIndex));
+  };
+  utterance.onend = () => {
+    window.clearTimeout(watchdog);
+    if (!cancelled) cb.onEnd();
+  };
+  utterance.onerror = (e) => {
+    window.clearTimeout(watchdog);
+    if (!cancelled && e.error !== 'interrupted' && e.error !== 'canceled') cb.onError(e.error);
+  };
+
+  // A stale queue (e.g. after a tab switch) would delay this utterance indefinitely
+  synth.cancel();
+  synth.speak(utterance);
+
+  return () => {
+    cancelled = true;
+    window.clearTimeout(watchdog);
+    synth.cancel();
+  };
+};
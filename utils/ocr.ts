@@ -0,0 +1,293 @@
+import { LanguageInfo, OcrLine, OcrPage, OcrToken } from '../types';
+import { stripPageNumbers, stripRunningHeaders, keepsHyphen, vocabularyOf } from './importers';
+import { endsSentence } from './textUtils';
+import { normalizeOcrText } from './language';
+
+// Words Tesseract is less sure about than this are flagged for review
+export const LOW_CONFIDENCE = 70;
+
+// --- PREPROCESSING ---
+// Photos are scaled so the long side stays within what Tesseract handles quickly
+const MAX_SIDE = 2400;
+// Adaptive threshold: a pixel is ink when darker than its neighbourhood mean by this fraction
+const THRESHOLD_BIAS = 0.15;
+const MAX_SKEW_DEG = 10;
+
+const toGray = (data: Uint8ClampedArray) => {
+  const gray = new Uint8ClampedArray(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// Stretch the 1st–99th percentile of brightness over the full range
+const stretchContrast = (gray: Uint8ClampedArray) => {
+  const hist = new Uint32Array(256);
+  gray.forEach(v => hist[v]++);
+  const cut = gray.length * 0.01;
+  let lo = 0;
+  let hi = 255;
+  for (let acc = 0; lo < 255 && (acc += hist[lo]) < cut; lo++);
+  for (let acc = 0; hi > 0 && (acc += hist[hi]) < cut; hi--);
+  if (hi <= lo) return;
+  const scale = 255 / (hi - lo);
+  for (let i = 0; i < gray.length; i++) gray[i] = (gray[i] - lo) * scale;
+};
+
+// Bradley's adaptive threshold over an integral image copes with uneven lighting in photos
+const binarize = (gray: Uint8ClampedArray, w: number, h: number) => {
+  const integral = new Float64Array((w + 1) * (h + 1));
+  for (let y = 0; y < h; y++) {
+    let row = 0;
+    for (let x = 0; x < w; x++) {
+      row += gray[y * w + x];
+      integral[(y + 1) * (w + 1) + x + 1] = integral[y * (w + 1) + x + 1] + row;
+    }
+  }
+  const r = Math.max(4, Math.round(Math.max(w, h) / 32));
+  const ink = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) {
+    const y0 = Math.max(0, y - r);
+    const y1 = Math.min(h, y + r + 1);
+    for (let x = 0; x < w; x++) {
+      const x0 = Math.max(0, x - r);
+      const x1 = Math.min(w, x + r + 1);
+      const sum = integral[y1 * (w + 1) + x1] - integral[y0 * (w + 1) + x1] - integral[y1 * (w + 1) + x0] + integral[y0 * (w + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      ink[y * w + x] = gray[y * w + x] < mean * (1 - THRESHOLD_BIAS) ? 1 : 0;
+    }
+  }
+  return ink;
+};
+
+// Skew angle (radians) at which ink pixels line up into the sharpest rows of text
+const estimateSkew = (ink: Uint8Array, w: number, h: number) => {
+  const step = Math.max(1, Math.round(Math.max(w, h) / 600));
+  const points: number[] = [];
+  for (let y = 0; y < h; y += step) {
+    for (let x = 0; x < w; x += step) if (ink[y * w + x]) points.push(x, y);
+  }
+  if (points.length < 200) return 0;
+  const score = (deg: number) => {
+    const t = Math.tan((deg * Math.PI) / 180);
+    const rows = new Map<number, number>();
+    for (let i = 0; i < points.length; i += 2) {
+      const row = Math.round((points[i + 1] + points[i] * t) / step);
+      rows.set(row, (rows.get(row) || 0) + 1);
+    }
+    let s = 0;
+    rows.forEach(c => { s += c * c; });
+    return s;
+  };
+  const search = (from: number, to: number, by: number) => {
+    let best = from;
+    let bestScore = -1;
+    for (let deg = from; deg <= to + 1e-9; deg += by) {
+      const s = score(deg);
+      if (s > bestScore) { best = deg; bestScore = s; }
+    }
+    return best;
+  };
+  const coarse = search(-MAX_SKEW_DEG, MAX_SKEW_DEG, 0.5);
+  return (search(coarse - 0.5, coarse + 0.5, 0.1) * Math.PI) / 180;
+};
+
+// Grayscale, contrast stretch, adaptive threshold and deskew a photographed page
+export const preprocessImage = async (image: Blob): Promise<HTMLCanvasElement> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+  const w = Math.max(1, Math.round(bitmap.width * scale));
+  const h = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0, w, h);
+  bitmap.close();
+
+  const img = ctx.getImageData(0, 0, w, h);
+  const gray = toGray(img.data);
+  stretchContrast(gray);
+  const ink = binarize(gray, w, h);
+  for (let i = 0; i < ink.length; i++) {
+    const v = ink[i] ? 0 : 255;
+    img.data[i * 4] = img.data[i * 4 + 1] = img.data[i * 4 + 2] = v;
+    img.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(img, 0, 0);
+
+  const angle = estimateSkew(ink, w, h);
+  if (Math.abs(angle) < 0.002) return canvas;
+  const out = document.createElement('canvas');
+  out.width = w;
+  out.height = h;
+  const octx = out.getContext('2d')!;
+  octx.fillStyle = '#fff';
+  octx.fillRect(0, 0, w, h);
+  octx.translate(w / 2, h / 2);
+  octx.rotate(angle);
+  octx.drawImage(canvas, -w / 2, -h / 2);
+  return out;
+};
+
+// --- RECOGNITION ---
+export type ScanStage = 'preparing' | 'loading' | 'recognizing';
+
+export interface ScanOptions {
+  signal?: AbortSignal;
+  // `progress` covers the whole batch, 0–1
+  onProgress?: (page: number, pages: number, stage: ScanStage, progress: number) => void;
+}
+
+const abortError = () => new DOMException('Scan cancelled', 'AbortError');
+const message = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Tesseract's paragraph → line → word tree, flattened to lines
+const pageLines = (data: any): OcrLine[] => {
+  const lines: OcrLine[] = [];
+  (data.paragraphs || []).forEach((para: any) => {
+    (para.lines || []).forEach((line: any, i: number) => {
+      const words = (line.words || [])
+        .map((w: any) => ({ text: String(w.text || '').trim(), confidence: Number(w.confidence) || 0 }))
+        .filter((w: { text: string }) => w.text);
+      if (words.length) lines.push({ words, paragraphStart: i === 0 });
+    });
+  });
+  // Older builds only return plain text; keep it, at the page's overall confidence
+  if (lines.length === 0 && data.text) {
+    String(data.text).split('\n').forEach((l, i, all) => {
+      const words = l.split(/\s+/).filter(Boolean).map(text => ({ text, confidence: Number(data.confidence) || 0 }));
+      if (words.length) lines.push({ words, paragraphStart: i === 0 || !all[i - 1].trim() });
+    });
+  }
+  return lines;
+};
+
+// Preprocess and recognize a batch of page images with one Tesseract worker.
+// Rejects with an AbortError when `signal` fires, otherwise with a message fit for the user.
+export const recognizePages = async (
+  images: File[],
+  language: LanguageInfo,
+  { signal, onProgress }: ScanOptions = {},
+  tesseract: any = (globalThis as any).Tesseract
+): Promise<OcrPage[]> => {
+  if (!tesseract) throw new Error('The scanner needs an initial online load to download the OCR engine.');
+  let page = 0;
+  const report = (stage: ScanStage, progress: number) => onProgress?.(page + 1, images.length, stage, (page + progress) / images.length);
+
+  let worker: any;
+  const cancelled = new Promise<never>((_, reject) => {
+    if (signal?.aborted) reject(abortError());
+    signal?.addEventListener('abort', () => reject(abortError()), { once: true });
+  });
+  cancelled.catch(() => { /* handled by whichever race is pending */ });
+  // Every await races the abort so a stuck download or recognition can't hold the UI
+  const step = <T,>(work: Promise<T>) => Promise.race([work, cancelled]);
+
+  try {
+    report('loading', 0);
+    const creating = tesseract.createWorker(language.ocr, 1, {
+      logger: (m: any) => {
+        if (typeof m.progress === 'number' && String(m.status).startsWith('recognizing')) report('recognizing', m.progress);
+      },
+    });
+    // A worker that finishes loading after a cancel is shut down straight away
+    creating.then((w: any) => { if (signal?.aborted) w.terminate(); }, () => {});
+    try {
+      worker = await step(creating);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      throw new Error(`Couldn't load the ${language.label} OCR model (${message(err)}). Connect to the internet once so it can be downloaded.`);
+    }
+
+    const pages: OcrPage[] = [];
+    for (; page < images.length; page++) {
+      const image = images[page];
+      report('preparing', 0);
+      let canvas: HTMLCanvasElement;
+      try {
+        canvas = await step(preprocessImage(image));
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        throw new Error(`${image.name} could not be opened as an image.`);
+      }
+      try {
+        const { data } = await step<any>(worker.recognize(canvas));
+        pages.push({ name: image.name, lines: pageLines(data) });
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        throw new Error(`Text recognition failed on ${image.name}: ${message(err)}`);
+      }
+    }
+    if (pages.every(p => p.lines.length === 0)) {
+      throw new Error('No text was found in these images. Try a sharper, evenly lit photo taken straight on.');
+    }
+    return pages;
+  } finally {
+    worker?.terminate();
+  }
+};
+
+// --- CLEANUP ---
+const lineText = (line: OcrLine) => line.words.map(w => w.text).join(' ');
+// OCR debris at word edges (table rules, speckles read as marks)
+const EDGE_JUNK = /^[|¦_~^`*=<>{}\\]+|[|¦_~^`*=<>{}\\]+$/g;
+// Punctuation that can legitimately stand alone between spaces
+const STANDALONE = /^(—|–|-|&|§|…|\+|"|“|”|«|»)$/;
+
+const cleanWord = (text: string) => text.replace(/\u00ad/g, '').replace(EDGE_JUNK, '');
+const isGarbage = (text: string) => !text || (!/[\p{L}\p{N}]/u.test(text) && !STANDALONE.test(text));
+
+// Turn recognized pages into reviewable words: running headers and page numbers dropped,
+// line-end hyphenation rejoined, debris removed, and paragraphs carried across page breaks
+// unless the page ended a sentence.
+export const buildDraft = (pages: OcrPage[]): OcrToken[] => {
+  // Ids come from the original page/line position so they don't shift when lines are dropped.
+  // Page numbers go first, while the page's own first and last lines are still its edges.
+  type NumberedLine = OcrLine & { id: string };
+  const numbered = pages.map((p, pi) =>
+    stripPageNumbers<NumberedLine>(p.lines.map((line, li) => ({ ...line, id: `${pi}:${li}` })), lineText));
+  const kept = stripRunningHeaders<NumberedLine>(numbered, lineText);
+  const vocabulary = vocabularyOf(pages.flatMap(p => p.lines.map(lineText)).join(' '));
+  const tokens: OcrToken[] = [];
+  let joinNext = false;
+
+  kept.forEach((lines, pi) => {
+    lines.forEach((line, li) => {
+      const prev = tokens[tokens.length - 1];
+      if (prev && li === 0 && pi > 0 && endsSentence(prev.text)) prev.breakAfter = true;
+      else if (prev && line.paragraphStart && li > 0) prev.breakAfter = true;
+
+      line.words.forEach((word, wi) => {
+        const text = cleanWord(word.text);
+        if (isGarbage(text)) return;
+        const last = tokens[tokens.length - 1];
+        // "exam-" at a line end followed by "ple" is one word; "well-" and "known" stay hyphenated
+        if (joinNext && wi === 0 && last && /^\p{Ll}/u.test(text)) {
+          const head = last.text.slice(0, -1);
+          last.text = keepsHyphen(head.match(/\p{L}+$/u)?.[0] || head, text, vocabulary) ? last.text + text : head + text;
+          last.confidence = Math.min(last.confidence, word.confidence);
+          last.breakAfter = false;
+          return;
+        }
+        tokens.push({ id: `${line.id}:${wi}`, text, confidence: word.confidence, breakAfter: false });
+      });
+      const tail = tokens[tokens.length - 1];
+      joinNext = !!tail && /\p{L}-$/u.test(tail.text);
+    });
+  });
+  return tokens;
+};
+
+// Plain text of (corrected) tokens, paragraphs separated by blank lines.
+// A deleted word hands its paragraph break to the word before it.
+export const draftText = (tokens: OcrToken[], language: string) => {
+  let out = '';
+  tokens.forEach(t => {
+    const word = t.text.trim();
+    if (word) out += (out && !out.endsWith('\n') ? ' ' : '') + word;
+    if (t.breakAfter && out && !out.endsWith('\n')) out += '\n\n';
+  });
+  return normalizeOcrText(out.trim(), language);
+};
@@ -0,0 +1,292 @@
+import {
+  ChunkSettings, PresetConfig, QuizSettings, ReaderSettings, SessionLink, SessionPreset, ShortcutAction, ShortcutBindings,
+  TimingMultipliers, TimingPreset, TimingSettings,
+} from '../types';
+import { DEFAULT_CHUNK } from './chunking';
+import { DEFAULT_BINDINGS } from './shortcuts';
+import { DEFAULT_QUIZ } from './quiz';
+import { TIMING_PRESETS } from './timing';
+import { LANGUAGES } from './language';
+import { newId } from './db';
+
+export const DEFAULT_READER: ReaderSettings = {
+  wpm: 350, isRamping: false, startWpm: 250, endWpm: 700,
+  loopEnabled: false, loopMax: 3, fontSize: 80, autoFontSize: true,
+};
+
+// --- LIMITS ---
+// The ranges the configurator's own controls allow
+type Range = [number, number];
+export const WPM_RANGE: Range = [50, 1500];
+const LOOP_RANGE: Range = [0, 20];
+const FONT_RANGE: Range = [20, 300];
+const CHUNK_WORDS_RANGE: Range = [2, 4];
+const CHUNK_CHARS_RANGE: Range = [8, 32];
+const QUIZ_COUNT_RANGE: Range = [1, 10];
+const MULTIPLIER_RANGES: Record<keyof TimingMultipliers, Range> = {
+  sentenceEnd: [1, 4], clauseEnd: [1, 3], paragraphEnd: [1, 4], longWord: [0, 0.2], shortWord: [0.5, 1.5],
+  number: [1, 3], hyphenated: [1, 2.5], acronym: [1, 2.5], quote: [1, 2],
+};
+const MULTIPLIER_KEYS = Object.keys(MULTIPLIER_RANGES) as (keyof TimingMultipliers)[];
+const NAME_MAX = 60;
+
+// Validators throw plain messages; the file parser and the link parser each frame them
+const check = (ok: boolean, msg: string) => { if (!ok) throw new Error(msg); };
+
+const num = (v: unknown, path: string, [min, max]: Range, integer = true): number => {
+  // Link parameters arrive as strings; only plain decimals count as numbers there
+  const n = typeof v === 'string' ? (/^\d+(\.\d+)?$/.test(v) ? Number(v) : NaN) : v;
+  check(
+    typeof n === 'number' && Number.isFinite(n) && n >= min && n <= max && (!integer || Number.isInteger(n)),
+    `${path} must be ${integer ? 'a whole number' : 'a number'} between ${min} and ${max}`
+  );
+  return n as number;
+};
+
+const bool = (v: unknown, path: string): boolean => {
+  check(typeof v === 'boolean', `${path} must be true or false`);
+  return v as boolean;
+};
+
+const parseReader = (raw: any, path: string): ReaderSettings => {
+  const r = { ...DEFAULT_READER, ...raw };
+  return {
+    wpm: num(r.wpm, `${path}.wpm`, WPM_RANGE),
+    isRamping: bool(r.isRamping, `${path}.isRamping`),
+    startWpm: num(r.startWpm, `${path}.startWpm`, WPM_RANGE),
+    endWpm: num(r.endWpm, `${path}.endWpm`, WPM_RANGE),
+    loopEnabled: bool(r.loopEnabled, `${path}.loopEnabled`),
+    loopMax: num(r.loopMax, `${path}.loopMax`, LOOP_RANGE),
+    fontSize: num(r.fontSize, `${path}.fontSize`, FONT_RANGE),
+    autoFontSize: bool(r.autoFontSize, `${path}.autoFontSize`),
+  };
+};
+
+const parseChunk = (raw: any, path: string): ChunkSettings => {
+  const c = { ...DEFAULT_CHUNK, ...raw };
+  check(c.mode === 'words' || c.mode === 'chars', `${path}.mode must be words or chars`);
+  return {
+    enabled: bool(c.enabled, `${path}.enabled`),
+    mode: c.mode,
+    size: num(c.size, `${path}.size`, CHUNK_WORDS_RANGE),
+    chars: num(c.chars, `${path}.chars`, CHUNK_CHARS_RANGE),
+  };
+};
+
+const parseMultipliers = (raw: any, path: string): TimingMultipliers => {
+  const m = { ...TIMING_PRESETS.classic, ...raw };
+  return Object.fromEntries(
+    MULTIPLIER_KEYS.map(k => [k, num(m[k], `${path}.${k}`, MULTIPLIER_RANGES[k], false)])
+  ) as unknown as TimingMultipliers;
+};
+
+const parseTiming = (raw: any, path: string): TimingSettings => {
+  const preset: TimingPreset = raw?.preset;
+  if (preset === 'classic' || preset === 'adaptive') return { preset, multipliers: TIMING_PRESETS[preset] };
+  check(preset === 'custom', `${path}.preset must be classic, adaptive or custom`);
+  return { preset, multipliers: parseMultipliers(raw.multipliers, `${path}.multipliers`) };
+};
+
+// --- STORED SETTINGS ---
+// Settings read back from storage are repaired field by field rather than rejected: numbers are
+// clamped into range and anything of the wrong type takes its default, so one bad value never
+// resets the rest.
+const clampNum = (v: unknown, [min, max]: Range, fallback: number): number =>
+  typeof v === 'number' && Number.isFinite(v) ? Math.round(Math.min(Math.max(v, min), max)) : fallback;
+
+const boolOr = (v: unknown, fallback: boolean) => (typeof v === 'boolean' ? v : fallback);
+
+export const sanitizeReader = (raw: any): ReaderSettings => ({
+  wpm: clampNum(raw?.wpm, WPM_RANGE, DEFAULT_READER.wpm),
+  isRamping: boolOr(raw?.isRamping, DEFAULT_READER.isRamping),
+  startWpm: clampNum(raw?.startWpm, WPM_RANGE, DEFAULT_READER.startWpm),
+  endWpm: clampNum(raw?.endWpm, WPM_RANGE, DEFAULT_READER.endWpm),
+  loopEnabled: boolOr(raw?.loopEnabled, DEFAULT_READER.loopEnabled),
+  loopMax: clampNum(raw?.loopMax, LOOP_RANGE, DEFAULT_READER.loopMax),
+  fontSize: clampNum(raw?.fontSize, FONT_RANGE, DEFAULT_READER.fontSize),
+  autoFontSize: boolOr(raw?.autoFontSize, DEFAULT_READER.autoFontSize),
+});
+
+export const sanitizeChunk = (raw: any): ChunkSettings => ({
+  enabled: boolOr(raw?.enabled, DEFAULT_CHUNK.enabled),
+  mode: raw?.mode === 'words' || raw?.mode === 'chars' ? raw.mode : DEFAULT_CHUNK.mode,
+  size: clampNum(raw?.size, CHUNK_WORDS_RANGE, DEFAULT_CHUNK.size),
+  chars: clampNum(raw?.chars, CHUNK_CHARS_RANGE, DEFAULT_CHUNK.chars),
+});
+
+export const sanitizeQuiz = (raw: any): QuizSettings => ({
+  mode: raw?.mode === 'off' || raw?.mode === 'end' || raw?.mode === 'sections' ? raw.mode : DEFAULT_QUIZ.mode,
+  count: clampNum(raw?.count, QUIZ_COUNT_RANGE, DEFAULT_QUIZ.count),
+});
+
+// A combo claimed twice stays with the first action, as rebinding would leave it
+export const sanitizeBindings = (raw: any): ShortcutBindings => {
+  const taken = new Set<string>();
+  return Object.fromEntries((Object.keys(DEFAULT_BINDINGS) as ShortcutAction[]).map(action => {
+    const combo = typeof raw?.[action] === 'string' ? raw[action] : DEFAULT_BINDINGS[action];
+    if (!combo || taken.has(combo)) return [action, ''];
+    taken.add(combo);
+    return [action, combo];
+  })) as ShortcutBindings;
+};
+
+// One-line summary for preset lists
+export const describePreset = ({ reader: r, chunk, timing }: PresetConfig) => [
+  r.isRamping ? `${r.startWpm}→${r.endWpm} WPM` : `${r.wpm} WPM`,
+  r.loopEnabled ? (r.loopMax === 0 ? 'endless loop' : `${r.loopMax} loops`) : null,
+  chunk.enabled ? (chunk.mode === 'words' ? `${chunk.size}-word chunks` : `${chunk.chars}-char chunks`) : null,
+  `${timing.preset} rhythm`,
+  r.autoFontSize ? null : `${r.fontSize}px`,
+].filter(Boolean).join(' · ');
+
+// --- PRESET FILES ---
+const PRESET_FILE_FORMAT = 'speed-reader-presets';
+
+export const createPreset = (name: string, config: PresetConfig): SessionPreset => ({
+  id: newId(), name: name.trim().slice(0, NAME_MAX), createdAt: Date.now(), ...config, reader: sanitizeReader(config.reader),
+});
+
+export const presetsToJson = (presets: SessionPreset[]) => JSON.stringify({
+  format: PRESET_FILE_FORMAT,
+  version: 1,
+  presets: presets.map(({ name, reader, chunk, timing }) => ({ name, reader, chunk, timing })),
+}, null, 2);
+
+// Accepts an exported file, a bare list of presets or a single preset. Missing fields take
+// their defaults; present ones must be valid. Imported presets get fresh ids.
+export const parsePresets = (json: string): SessionPreset[] => {
+  const fail = (msg: string): never => { throw new Error(`Invalid preset file: ${msg}`); };
+  let raw: any;
+  try { raw = JSON.parse(json); } catch { fail('file is not valid JSON'); }
+  if (raw?.format !== undefined && raw.format !== PRESET_FILE_FORMAT) fail(`unknown format "${raw.format}"`);
+  const list: any[] = Array.isArray(raw) ? raw : Array.isArray(raw?.presets) ? raw.presets : [raw];
+  if (list.length === 0) fail('no presets found');
+  return list.map((p, i) => {
+    const path = `presets[${i}]`;
+    try {
+      check(typeof p?.name === 'string' && !!p.name.trim(), `${path}.name is required`);
+      return createPreset(p.name, {
+        reader: parseReader(p.reader, `${path}.reader`),
+        chunk: parseChunk(p.chunk, `${path}.chunk`),
+        timing: p.timing === undefined ? { preset: 'classic', multipliers: TIMING_PRESETS.classic } : parseTiming(p.timing, `${path}.timing`),
+      });
+    } catch (err) {
+      return fail(err instanceof Error ? err.message : String(err));
+    }
+  });
+};
+
+// --- DEEP LINKS ---
+// Everything rides in the URL fragment, which browsers never send to the server, so shared
+// text stays between the teacher and the students:
+//   #preset=Drill&wpm=400&ramp=250-700&loop=3&font=auto&chunk=words-3&rhythm=adaptive&lang=en&text=...
+// `ramp`, `loop` and `chunk` also take "off"; `rhythm` takes classic, adaptive or key:value pairs
+// (sentenceEnd:2,clauseEnd:1.4) for a custom model. `doc` names a library document instead of `text`.
+const LINK_KEYS = ['preset', 'wpm', 'ramp', 'loop', 'font', 'chunk', 'rhythm', 'lang', 'doc', 'text', 'title'];
+// Longer texts make links that chat apps and browsers start truncating
+export const LINK_TEXT_LIMIT = 20000;
+
+export interface LinkContent {
+  text?: string;
+  title?: string;
+  docId?: string;
+  language?: string;
+}
+
+export const buildLink = (base: string, name: string | null, config: PresetConfig, content: LinkContent = {}) => {
+  const { reader: r, chunk, timing } = config;
+  const params = new URLSearchParams();
+  if (name) params.set('preset', name);
+  params.set('wpm', String(r.wpm));
+  params.set('ramp', r.isRamping ? `${r.startWpm}-${r.endWpm}` : 'off');
+  params.set('loop', r.loopEnabled ? String(r.loopMax) : 'off');
+  params.set('font', r.autoFontSize ? 'auto' : String(r.fontSize));
+  params.set('chunk', chunk.enabled ? `${chunk.mode}-${chunk.mode === 'words' ? chunk.size : chunk.chars}` : 'off');
+  params.set('rhythm', timing.preset === 'custom'
+    ? MULTIPLIER_KEYS.map(k => `${k}:${timing.multipliers[k]}`).join(',')
+    : timing.preset);
+  if (content.language) params.set('lang', content.language);
+  if (content.docId) params.set('doc', content.docId);
+  if (content.text) {
+    params.set('text', content.text);
+    if (content.title) params.set('title', content.title);
+  }
+  return `${base.split('#')[0]}#${params.toString()}`;
+};
+
+// Returns null when the fragment isn't a session link at all
+export const parseLink = (hash: string): SessionLink | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (!LINK_KEYS.some(k => params.has(k))) return null;
+  const link: SessionLink = {
+    name: null, reader: {}, chunk: null, timing: null,
+    text: null, title: null, docId: null, language: null, ignored: [],
+  };
+  // A bad parameter is skipped on its own; the rest of the link still applies
+  const read = (key: string, apply: (value: string) => void) => {
+    const value = params.get(key);
+    if (value === null) return;
+    try {
+      apply(value.trim());
+    } catch (err) {
+      link.ignored.push(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  read('preset', v => { link.name = v.slice(0, NAME_MAX) || null; });
+  read('wpm', v => { link.reader.wpm = num(v, 'wpm', WPM_RANGE); });
+  read('ramp', v => {
+    if (v === 'off') {
+      link.reader.isRamping = false;
+      return;
+    }
+    const m = /^(\d+)-(\d+)$/.exec(v);
+    check(!!m, 'ramp must be two speeds like 250-700');
+    const startWpm = num(m![1], 'ramp start', WPM_RANGE);
+    const endWpm = num(m![2], 'ramp end', WPM_RANGE);
+    Object.assign(link.reader, { isRamping: true, startWpm, endWpm });
+  });
+  read('loop', v => {
+    if (v === 'off') link.reader.loopEnabled = false;
+    else Object.assign(link.reader, { loopEnabled: true, loopMax: num(v, 'loop', LOOP_RANGE) });
+  });
+  read('font', v => {
+    if (v === 'auto') link.reader.autoFontSize = true;
+    else Object.assign(link.reader, { autoFontSize: false, fontSize: num(v, 'font', FONT_RANGE) });
+  });
+  read('chunk', v => {
+    if (v === 'off') {
+      link.chunk = { ...DEFAULT_CHUNK, enabled: false };
+      return;
+    }
+    const m = /^(words|chars)-(\d+)$/.exec(v);
+    check(!!m, 'chunk must be off, words-N or chars-N');
+    link.chunk = m![1] === 'words'
+      ? { ...DEFAULT_CHUNK, enabled: true, mode: 'words', size: num(m![2], 'chunk words', CHUNK_WORDS_RANGE) }
+      : { ...DEFAULT_CHUNK, enabled: true, mode: 'chars', chars: num(m![2], 'chunk characters', CHUNK_CHARS_RANGE) };
+  });
+  read('rhythm', v => {
+    if (v === 'classic' || v === 'adaptive') {
+      link.timing = { preset: v, multipliers: TIMING_PRESETS[v] };
+      return;
+    }
+    const pairs = v.split(',').map(pair => pair.split(':'));
+    check(pairs.every(p => p.length === 2), 'rhythm must be classic, adaptive or key:value pairs');
+    pairs.forEach(([k]) => check(k in MULTIPLIER_RANGES, `rhythm has no setting called "${k}"`));
+    link.timing = { preset: 'custom', multipliers: parseMultipliers(Object.fromEntries(pairs), 'rhythm') };
+  });
+  read('lang', v => {
+    check(LANGUAGES.some(l => l.code === v), `lang "${v}" is not a supported language`);
+    link.language = v;
+  });
+  read('doc', v => {
+    check(/^[\w-]{1,64}$/.test(v), 'doc is not a library reference');
+    link.docId = v;
+  });
+  read('text', v => {
+    check(v.length <= LINK_TEXT_LIMIT, `text is longer than ${LINK_TEXT_LIMIT} characters`);
+    link.text = v || null;
+  });
+  read('title', v => { link.title = v.slice(0, 120) || null; });
+  return link;
+};
@@ -0,0 +1,112 @@
+import { DocModel, QuizQuestion, QuizSettings, Span } from '../types';
+import { newId } from './db';
+
+// Offline cloze generation: pick informative sentences from the range that was read,
+// blank out their most distinctive word and draw distractors from the same text.
+
+export const DEFAULT_QUIZ: QuizSettings = { mode: 'off', count: 5 };
+export const BLANK = '____';
+
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'again', 'against', 'also', 'because', 'been', 'before', 'being', 'below', 'between',
+  'both', 'could', 'does', 'doing', 'down', 'during', 'each', 'even', 'every', 'from', 'further', 'have', 'having',
+  'here', 'into', 'just', 'more', 'most', 'much', 'must', 'never', 'only', 'other', 'over', 'same', 'shall', 'should',
+  'since', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+  'through', 'under', 'until', 'very', 'were', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'would',
+  'your', 'yours', 'said', 'says', 'like', 'many', 'made', 'make', 'still', 'well', 'went', 'come', 'came',
+]);
+
+const bare = (word: string) => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+export const normalizeAnswer = (s: string) => bare(s.trim()).toLowerCase();
+
+type Kind = 'number' | 'name' | 'word';
+const kindOf = (word: string, isSentenceStart: boolean): Kind | null => {
+  const core = bare(word);
+  if (/^\d[\d,.]*$/.test(core)) return 'number';
+  if (!/^\p{L}[\p{L}'-]*$/u.test(core) || core.length < 4) return null;
+  if (STOPWORDS.has(core.toLowerCase())) return null;
+  if (/^\p{Lu}/u.test(core) && !isSentenceStart) return 'name';
+  return 'word';
+};
+
+// Unbiased Fisher–Yates shuffle of a copy
+export const shuffle = <T,>(items: T[]): T[] => {
+  const out = items.slice();
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+export const generateCloze = (doc: DocModel, range: Span, count: number): QuizQuestion[] => {
+  const { words } = doc;
+  // Term frequency over the whole text: recurring terms are the ones worth remembering
+  const freq = new Map<string, number>();
+  const pool: Record<Kind, Set<string>> = { number: new Set(), name: new Set(), word: new Set() };
+  doc.sentences.forEach(s => {
+    for (let i = s.start; i < s.end; i++) {
+      const kind = kindOf(words[i], i === s.start);
+      if (!kind) continue;
+      const key = bare(words[i]).toLowerCase();
+      freq.set(key, (freq.get(key) || 0) + 1);
+      pool[kind].add(bare(words[i]));
+    }
+  });
+
+  const candidates = doc.sentences
+    .filter(s => s.start >= range.start && s.end <= range.end && s.end - s.start >= 6 && s.end - s.start <= 40)
+    .map(s => {
+      const scored: { i: number; score: number }[] = [];
+      for (let i = s.start + 1; i < s.end; i++) {
+        const kind = kindOf(words[i], false);
+        if (!kind) continue;
+        const f = freq.get(bare(words[i]).toLowerCase()) || 1;
+        scored.push({ i, score: f * (kind === 'word' ? 1 : 1.5) * Math.min(bare(words[i]).length, 10) / 10 });
+      }
+      scored.sort((a, b) => b.score - a.score);
+      const total = scored.reduce((sum, w) => sum + w.score, 0);
+      return { sentence: s, scored, score: total / (s.end - s.start) + (scored[0]?.score || 0) };
+    })
+    .filter(c => c.scored.length > 0)
+    .sort((a, b) => b.score - a.score);
+
+  // Best sentences first, each blanking its strongest word not already used as an answer
+  const used = new Set<string>();
+  const picked: { sentence: Span; blank: number }[] = [];
+  for (const c of candidates) {
+    if (picked.length >= count) break;
+    const choice = c.scored.find(w => !used.has(bare(words[w.i]).toLowerCase()));
+    if (!choice) continue;
+    used.add(bare(words[choice.i]).toLowerCase());
+    picked.push({ sentence: c.sentence, blank: choice.i });
+  }
+  picked.sort((a, b) => a.sentence.start - b.sentence.start);
+
+  return picked.map(({ sentence, blank }) => {
+    const answer = bare(words[blank]);
+    const kind = kindOf(words[blank], false) as Kind;
+    const prompt = words.slice(sentence.start, sentence.end)
+      .map((w, i) => (sentence.start + i === blank ? w.replace(answer, BLANK) : w))
+      .join(' ');
+    const sentenceWords = new Set(words.slice(sentence.start, sentence.end).map(w => bare(w).toLowerCase()));
+    const distractors = shuffle(Array.from(pool[kind]).filter(w => !sentenceWords.has(w.toLowerCase())))
+      .sort((a, b) => Math.abs(a.length - answer.length) - Math.abs(b.length - answer.length))
+      .slice(0, 3);
+    return {
+      id: newId(),
+      prompt,
+      answer,
+      options: distractors.length >= 2 ? shuffle([answer, ...distractors]) : [],
+      source: 'cloze' as const,
+    };
+  });
+};
+
+// Teacher questions lead; generated cloze items fill the remaining slots
+export const buildQuiz = (doc: DocModel, range: Span, settings: QuizSettings, teacher: QuizQuestion[] = []): QuizQuestion[] => {
+  const authored = teacher.slice(0, settings.count);
+  return [...authored, ...generateCloze(doc, range, settings.count - authored.length)];
+};
+
+export const isCorrect = (q: QuizQuestion, response: string) => normalizeAnswer(response) === normalizeAnswer(q.answer);
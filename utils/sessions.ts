@@ -0,0 +1,151 @@
+import { ReadingSession } from '../types';
+import { STORE_SESSIONS, withStore, newId } from './db';
+
+// --- LIVE TRACKING ---
+export const startSession = (docId: string | null, docTitle: string): ReadingSession => {
+  const now = Date.now();
+  return {
+    id: newId(), docId, docTitle, startedAt: now, endedAt: now,
+    wordsRead: 0, activeMs: 0, avgWpm: 0, peakWpm: 0,
+    pauses: 0, rewinds: 0, loopsCompleted: 0, completed: false,
+    quizCorrect: 0, quizTotal: 0,
+  };
+};
+
+// Called once a unit has been on screen for its full duration
+export const recordUnit = (s: ReadingSession, wordCount: number, ms: number, wpm: number) => {
+  s.wordsRead += wordCount;
+  s.activeMs += ms;
+  s.peakWpm = Math.max(s.peakWpm, wpm);
+};
+
+export const finishSession = (s: ReadingSession, completed: boolean): ReadingSession => {
+  s.endedAt = Date.now();
+  s.completed = completed;
+  s.avgWpm = s.activeMs > 0 ? Math.round(s.wordsRead / (s.activeMs / 60000)) : 0;
+  return s;
+};
+
+// --- STORAGE ---
+export const saveSession = (s: ReadingSession) => withStore(STORE_SESSIONS, 'readwrite', st => st.put(s));
+
+// Quiz results can arrive after the session was saved (end-of-session quiz)
+export const addQuizResult = async (id: string, correct: number, total: number) => {
+  const s = await withStore<ReadingSession | undefined>(STORE_SESSIONS, 'readonly', st => st.get(id));
+  if (!s) return;
+  await saveSession({ ...s, quizCorrect: (s.quizCorrect || 0) + correct, quizTotal: (s.quizTotal || 0) + total });
+};
+
+export const listSessions = async (): Promise<ReadingSession[]> => {
+  const all = await withStore<ReadingSession[]>(STORE_SESSIONS, 'readonly', st => st.getAll());
+  return all.sort((a, b) => a.startedAt - b.startedAt);
+};
+
+// --- SUMMARIES ---
+export interface DailyStat {
+  day: string; // YYYY-MM-DD, local time
+  words: number;
+  avgWpm: number;
+  peakWpm: number;
+}
+
+export interface DocumentStat {
+  docId: string | null;
+  title: string;
+  sessions: number;
+  words: number;
+  bestWpm: number;
+  lastAt: number;
+}
+
+export interface SessionSummary {
+  totalWords: number;
+  totalMinutes: number;
+  avgWpm: number;
+  currentStreak: number;
+  longestStreak: number;
+  daily: DailyStat[];
+  documents: DocumentStat[];
+}
+
+export const dayKey = (t: number) => {
+  const d = new Date(t);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const previousDay = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return dayKey(new Date(y, m - 1, d - 1).getTime());
+};
+
+export const summarizeSessions = (sessions: ReadingSession[], now = Date.now()): SessionSummary => {
+  const byDay = new Map<string, { words: number; ms: number; peak: number }>();
+  const byDoc = new Map<string, DocumentStat>();
+  let totalWords = 0;
+  let totalMs = 0;
+
+  sessions.forEach(s => {
+    totalWords += s.wordsRead;
+    totalMs += s.activeMs;
+    const day = byDay.get(dayKey(s.startedAt)) || { words: 0, ms: 0, peak: 0 };
+    day.words += s.wordsRead;
+    day.ms += s.activeMs;
+    day.peak = Math.max(day.peak, s.peakWpm);
+    byDay.set(dayKey(s.startedAt), day);
+
+    const key = s.docId || `untitled:${s.docTitle}`;
+    const doc = byDoc.get(key) || { docId: s.docId, title: s.docTitle, sessions: 0, words: 0, bestWpm: 0, lastAt: 0 };
+    doc.sessions += 1;
+    doc.words += s.wordsRead;
+    doc.bestWpm = Math.max(doc.bestWpm, s.avgWpm);
+    if (s.startedAt >= doc.lastAt) { doc.lastAt = s.startedAt; doc.title = s.docTitle; }
+    byDoc.set(key, doc);
+  });
+
+  const daily = Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, v]) => ({ day, words: v.words, peakWpm: v.peak, avgWpm: v.ms > 0 ? Math.round(v.words / (v.ms / 60000)) : 0 }));
+
+  // Streaks count consecutive calendar days with at least one session; today not reading yet keeps yesterday's streak alive
+  let longestStreak = 0;
+  let run = 0;
+  let prev = '';
+  daily.forEach(({ day }) => {
+    run = prev && previousDay(day) === prev ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    prev = day;
+  });
+  const today = dayKey(now);
+  const lastDay = daily.length ? daily[daily.length - 1].day : '';
+  const currentStreak = lastDay === today || lastDay === previousDay(today) ? run : 0;
+
+  return {
+    totalWords,
+    totalMinutes: Math.round(totalMs / 60000),
+    avgWpm: totalMs > 0 ? Math.round(totalWords / (totalMs / 60000)) : 0,
+    currentStreak,
+    longestStreak,
+    daily,
+    documents: Array.from(byDoc.values()).sort((a, b) => b.lastAt - a.lastAt),
+  };
+};
+
+// --- EXPORT ---
+const CSV_COLUMNS: (keyof ReadingSession)[] = [
+  'startedAt', 'endedAt', 'docTitle', 'wordsRead', 'activeMs', 'avgWpm', 'peakWpm', 'pauses', 'rewinds', 'loopsCompleted', 'completed',
+  'quizCorrect', 'quizTotal',
+];
+
+const csvCell = (v: unknown) => {
+  const s = String(v ?? '');
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const sessionsToCsv = (sessions: ReadingSession[]) => [
+  CSV_COLUMNS.join(','),
+  ...sessions.map(s => CSV_COLUMNS.map(c =>
+    csvCell(c === 'startedAt' || c === 'endedAt' ? new Date(s[c]).toISOString() : s[c])
+  ).join(',')),
+].join('\n');
+
+export const sessionsToJson = (sessions: ReadingSession[]) => JSON.stringify(sessions, null, 2);
@@ -0,0 +1,68 @@
+import { ShortcutAction, ShortcutBindings } from '../types';
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  togglePlay: 'Play / Pause',
+  prevWord: 'Back one word',
+  nextWord: 'Forward one word',
+  prevSentence: 'Previous sentence',
+  nextSentence: 'Next sentence',
+  speedUp: 'Faster',
+  speedDown: 'Slower',
+  toggleLoop: 'Toggle looping',
+  toggleSettings: 'Configurator',
+};
+
+export const DEFAULT_BINDINGS: ShortcutBindings = {
+  togglePlay: 'Space',
+  prevWord: 'ArrowLeft',
+  nextWord: 'ArrowRight',
+  prevSentence: 'Shift+ArrowLeft',
+  nextSentence: 'Shift+ArrowRight',
+  speedUp: 'ArrowUp',
+  speedDown: 'ArrowDown',
+  toggleLoop: 'KeyL',
+  toggleSettings: 'Escape',
+};
+
+const MODIFIER_CODES = new Set(['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight']);
+
+// Physical key codes keep bindings stable across keyboard layouts; null for a bare modifier press
+export const comboFromEvent = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_CODES.has(e.code)) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  if (e.metaKey) parts.push('Meta');
+  parts.push(e.code);
+  return parts.join('+');
+};
+
+const KEY_NAMES: Record<string, string> = {
+  Space: 'Space', ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓', Escape: 'Esc', Enter: 'Enter',
+};
+
+export const formatCombo = (combo: string) => combo
+  ? combo.split('+').map(p => KEY_NAMES[p] || p.replace(/^Key|^Digit/, '')).join(' + ')
+  : 'Unbound';
+
+export const actionForCombo = (bindings: ShortcutBindings, combo: string): ShortcutAction | null =>
+  (Object.keys(bindings) as ShortcutAction[]).find(a => bindings[a] === combo) || null;
+
+// Assigning a combo takes it away from whichever action held it before
+export const rebind = (bindings: ShortcutBindings, action: ShortcutAction, combo: string): ShortcutBindings => {
+  const next = { ...bindings };
+  (Object.keys(next) as ShortcutAction[]).forEach(a => { if (next[a] === combo) next[a] = ''; });
+  next[action] = combo;
+  return next;
+};
+
+// Typing into a field must never trigger reader shortcuts
+export const isTypingTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  if (el.isContentEditable) return true;
+  const tag = el.tagName;
+  if (tag === 'TEXTAREA' || tag === 'SELECT') return true;
+  return tag === 'INPUT' && !['range', 'checkbox', 'radio', 'button'].includes((el as HTMLInputElement).type);
+};
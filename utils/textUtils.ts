@@ -0,0 +1,154 @@
+import { DocModel, DocParagraph, DocSection, Span } from '../types';
+import { DEFAULT_LANGUAGE, graphemes, guessLanguage, segmentToken, wordJoiner } from './language';
+
+// Scripts whose letters join their neighbours; splitting a word across elements breaks the joins
+const JOINING_SCRIPT = /[\p{Script=Arabic}\p{Script=Syriac}\p{Script=Nko}\p{Script=Mongolian}]/u;
+const ZWJ = '\u200D';
+
+// Helper: Optimal Recognition Point calculation for RSVP (Rapid Serial Visual Presentation).
+// Multi-word chunks pivot on their optical center instead, nudged off any space.
+// Positions count grapheme clusters in logical order, so emoji and accented letters stay whole
+// and right-to-left words pivot from their reading start once laid out RTL.
+export const getParts = (w: string) => {
+  if (!w) return { pre: '', p: '', suf: '' };
+  const chars = graphemes(w);
+  const len = chars.length;
+  let pos = Math.floor(len / 2.5);
+  if (/\s/.test(w)) {
+    pos = Math.floor((len - 1) / 2);
+    while (pos > 0 && /\s/.test(chars[pos])) pos--;
+  } else if (len <= 1) pos = 0;
+  else if (len <= 5) pos = 1;
+  const pre = chars.slice(0, pos).join('');
+  const p = chars[pos] ?? '';
+  const suf = chars.slice(pos + 1).join('');
+  if (!JOINING_SCRIPT.test(w)) return { pre, p, suf };
+  // Zero-width joiners keep cursive letters in their connected forms across the split
+  const joins = (a: string, b: string) => /\S$/.test(a) && /^\S/.test(b);
+  return {
+    pre: pre && joins(pre, p) ? pre + ZWJ : pre,
+    p: `${joins(pre, p) ? ZWJ : ''}${p}${joins(p, suf) ? ZWJ : ''}`,
+    suf: suf && joins(p, suf) ? ZWJ + suf : suf,
+  };
+};
+
+// Flatten text into the word stream the reader steps through. Runs of unspaced script
+// (Chinese, Japanese, Thai) are broken into words with Intl.Segmenter.
+export const splitWords = (text: string, language = DEFAULT_LANGUAGE): string[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  return trimmed.replace(/[\r\n]+/g, ' ').split(/\s+/).flatMap(token => segmentToken(token, language));
+};
+
+// Derive a short library title from the opening words of a text
+export const deriveTitle = (text: string, maxWords = 6): string => {
+  const language = guessLanguage(text);
+  const words = splitWords(text, language);
+  if (words.length === 0) return 'Untitled';
+  const head = words.slice(0, maxWords).join(wordJoiner(language));
+  return words.length > maxWords ? `${head}…` : head;
+};
+
+// --- DOCUMENT MODEL ---
+const ABBREVIATIONS = new Set([
+  'mr.', 'mrs.', 'ms.', 'dr.', 'prof.', 'sr.', 'jr.', 'st.', 'mt.', 'vs.', 'etc.', 'e.g.', 'i.e.',
+  'cf.', 'al.', 'fig.', 'no.', 'vol.', 'ch.', 'p.', 'pp.', 'approx.', 'inc.', 'ltd.', 'co.',
+]);
+
+// Initialisms ("U.S.", "e.g.", "a.k.a.") rarely end a sentence
+const INITIALISM = /^(?:\p{L}\.){2,}$/u;
+
+const SECTION_PREFIX = /^(chapter|part|section|book|prologue|epilogue|introduction|preface|appendix|act|scene)\b/i;
+
+export const endsSentence = (word: string) => {
+  if (!/[.!?…。！？؟।]["'”’」』)\]]*$/.test(word)) return false;
+  const bare = word.toLowerCase().replace(/^["'“‘(\[]+|["'”’)\]]+$/g, '');
+  if (ABBREVIATIONS.has(bare) || INITIALISM.test(bare)) return false;
+  return !/^[A-Z]\.$/.test(word); // initials such as "J."
+};
+
+// A heading is a short standalone line without closing punctuation that is
+// numbered, uses a section keyword, or is set in capitals / title case
+const isHeadingBlock = (block: string, words: string[]) => {
+  if (block.includes('\n') || words.length === 0 || words.length > 10) return false;
+  if (/[.,;:!?…"'”’]$/.test(block)) return false;
+  if (SECTION_PREFIX.test(block) || /^([\dIVXLC]+[.)]?)(\s|$)/.test(block)) return true;
+  if (block === block.toUpperCase() && /\p{L}/u.test(block)) return true;
+  return /^\p{Lu}/u.test(block) && words.filter(w => /^\p{L}{4,}/u.test(w)).every(w => /^\p{Lu}/u.test(w));
+};
+
+// Paragraphs are separated by blank lines; if the text has none, every line break counts
+const splitBlocks = (text: string) => {
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  const separator = /\n[ \t]*\n/.test(normalized) ? /\n[ \t]*\n+/ : /\n+/;
+  return normalized.split(separator).map(b => b.trim()).filter(Boolean);
+};
+
+export const parseDocument = (text: string, language = DEFAULT_LANGUAGE): DocModel => {
+  const words: string[] = [];
+  const sections: DocSection[] = [];
+  const paragraphs: DocParagraph[] = [];
+  const sentences: Span[] = [];
+  const blocks = splitBlocks(text);
+  let section: DocSection | null = null;
+
+  blocks.forEach((block, bi) => {
+    const blockWords = splitWords(block, language);
+    const start = words.length;
+    words.push(...blockWords);
+    const isHeading = blocks.length > 1 && bi < blocks.length - 1 && isHeadingBlock(block, blockWords);
+
+    const paraSentences: Span[] = [];
+    let sStart = start;
+    blockWords.forEach((w, wi) => {
+      const abs = start + wi;
+      if (!isHeading && endsSentence(w) && abs + 1 < words.length) {
+        paraSentences.push({ start: sStart, end: abs + 1 });
+        sStart = abs + 1;
+      }
+    });
+    if (sStart < words.length) paraSentences.push({ start: sStart, end: words.length });
+
+    const paragraph: DocParagraph = { start, end: words.length, sentences: paraSentences, isHeading };
+    // Stacked headings ("Part One" over "Chapter 1") open a single section
+    if (isHeading && section && section.paragraphs.every(p => p.isHeading)) {
+      section.title = section.title ? `${section.title} · ${block}` : block;
+    } else if (isHeading || !section) {
+      section = { title: isHeading ? block : '', start, end: start, paragraphs: [] };
+      sections.push(section);
+    }
+    section.paragraphs.push(paragraph);
+    section.end = words.length;
+    paragraphs.push(paragraph);
+    sentences.push(...paraSentences);
+  });
+
+  return { words, sections, paragraphs, sentences };
+};
+
+// --- NAVIGATION ---
+// Index of the span containing word `idx` (spans are sorted and contiguous)
+export const spanIndexAt = (spans: Span[], idx: number): number => {
+  let lo = 0;
+  let hi = spans.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (spans[mid].start <= idx) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+// Start of the current span, or of the previous one when already at its start
+export const prevSpanStart = (spans: Span[], idx: number): number => {
+  if (spans.length === 0) return 0;
+  const i = spanIndexAt(spans, idx);
+  if (idx > spans[i].start || i === 0) return spans[i].start;
+  return spans[i - 1].start;
+};
+
+export const nextSpanStart = (spans: Span[], idx: number): number => {
+  if (spans.length === 0) return idx;
+  const i = spanIndexAt(spans, idx);
+  return i + 1 < spans.length ? spans[i + 1].start : idx;
+};
@@ -0,0 +1,72 @@
+import { DocModel, TimingMultipliers, TimingPreset, TimingSettings } from '../types';
+import { endsSentence } from './textUtils';
+
+// What a delay model knows about a token beyond its text
+export interface TokenContext {
+  index: number;
+  prev: string;
+  next: string;
+  endsSentence: boolean;
+  endsParagraph: boolean;
+}
+
+// A delay model maps a token to a display duration for a given base duration (60000 / wpm).
+// Models only need to be right relatively: the engine rescales them to the chosen WPM.
+export interface DelayModel {
+  delay: (token: string, ctx: TokenContext, baseMs: number) => number;
+}
+
+export const TIMING_PRESETS: Record<Exclude<TimingPreset, 'custom'>, TimingMultipliers> = {
+  // The original rule: only trailing punctuation stretches a word
+  classic: {
+    sentenceEnd: 2.2, clauseEnd: 1.5, paragraphEnd: 1,
+    longWord: 0, shortWord: 1, number: 1, hyphenated: 1, acronym: 1, quote: 1,
+  },
+  adaptive: {
+    sentenceEnd: 2, clauseEnd: 1.4, paragraphEnd: 1.6,
+    longWord: 0.06, shortWord: 0.8, number: 1.5, hyphenated: 1.3, acronym: 1.4, quote: 1.15,
+  },
+};
+
+export const DEFAULT_TIMING: TimingSettings = { preset: 'classic', multipliers: TIMING_PRESETS.classic };
+
+export const createMultiplierModel = (m: TimingMultipliers): DelayModel => ({
+  delay: (token, ctx, baseMs) => {
+    const core = token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+    let f = 1;
+    if (ctx.endsSentence) f *= m.sentenceEnd;
+    else if (/[,;:—–，、；：،؛]["'”’」』)\]]*$/.test(token)) f *= m.clauseEnd;
+    if (ctx.endsParagraph) f *= m.paragraphEnd;
+    if (core.length > 6) f *= 1 + (core.length - 6) * m.longWord;
+    else if (core.length > 0 && core.length <= 3) f *= m.shortWord;
+    if (/\d/.test(core)) f *= m.number;
+    if (/\p{L}-\p{L}/u.test(core)) f *= m.hyphenated;
+    if (core.length >= 2 && /^[\p{Lu}\d&]+$/u.test(core) && /\p{Lu}.*\p{Lu}/u.test(core)) f *= m.acronym;
+    if (/^["'“‘«]|["'”’»]$/.test(token.replace(/[.,;:!?)\]]+$/, ''))) f *= m.quote;
+    return baseMs * f;
+  },
+});
+
+// Relative duration of every word, rescaled so the mean is 1. Multiplying by 60000 / wpm
+// therefore keeps the average effective speed equal to the chosen WPM.
+export const buildTimingWeights = (doc: DocModel, model: DelayModel): Float64Array => {
+  const { words } = doc;
+  const weights = new Float64Array(words.length);
+  const paragraphEnds = new Set(doc.paragraphs.map(p => p.end - 1));
+  const sentenceEnds = new Set(doc.sentences.map(s => s.end - 1));
+  let sum = 0;
+  for (let i = 0; i < words.length; i++) {
+    const ctx: TokenContext = {
+      index: i,
+      prev: words[i - 1] || '',
+      next: words[i + 1] || '',
+      endsSentence: sentenceEnds.has(i) && endsSentence(words[i]),
+      endsParagraph: paragraphEnds.has(i) && i < words.length - 1,
+    };
+    weights[i] = Math.max(0.05, model.delay(words[i], ctx, 1));
+    sum += weights[i];
+  }
+  const mean = sum / Math.max(1, words.length);
+  for (let i = 0; i < weights.length; i++) weights[i] /= mean;
+  return weights;
+};
@@ -0,0 +1,165 @@
+import { DocModel, ReadingSession, Span, SpeedCurve, TrainingDay, TrainingEnrollment, TrainingProgram } from '../types';
+import { dayKey } from './sessions';
+import { WPM_RANGE } from './presets';
+
+// --- CURVES ---
+// Speed at `progress` (0..1 across every loop of the session)
+export const curveWpm = (curve: SpeedCurve, progress: number): number => {
+  const p = Math.min(Math.max(progress, 0), 1);
+  switch (curve.type) {
+    case 'linear':
+      return curve.startWpm + (curve.endWpm - curve.startWpm) * p;
+    case 'stepped': {
+      const steps = Math.max(2, curve.steps);
+      return curve.startWpm + (curve.endWpm - curve.startWpm) * (Math.min(Math.floor(p * steps), steps - 1) / (steps - 1));
+    }
+    case 'intervals': {
+      const segment = Math.min(Math.floor(p * curve.intervals * 2), curve.intervals * 2 - 1);
+      return segment % 2 === 1 ? curve.sprintWpm : curve.baseWpm;
+    }
+    case 'plateau':
+      return p >= curve.rampFraction || curve.rampFraction <= 0
+        ? curve.wpm
+        : curve.startWpm + (curve.wpm - curve.startWpm) * (p / curve.rampFraction);
+  }
+};
+
+// Scaled speeds stay within what the reader allows, however far a program's adjustment goes
+export const scaleCurve = (curve: SpeedCurve, factor: number): SpeedCurve => {
+  const s = (v: number) => Math.min(Math.max(Math.round(v * factor), WPM_RANGE[0]), WPM_RANGE[1]);
+  switch (curve.type) {
+    case 'linear': return { ...curve, startWpm: s(curve.startWpm), endWpm: s(curve.endWpm) };
+    case 'stepped': return { ...curve, startWpm: s(curve.startWpm), endWpm: s(curve.endWpm) };
+    case 'intervals': return { ...curve, baseWpm: s(curve.baseWpm), sprintWpm: s(curve.sprintWpm) };
+    case 'plateau': return { ...curve, startWpm: s(curve.startWpm), wpm: s(curve.wpm) };
+  }
+};
+
+export const describeCurve = (curve: SpeedCurve): string => {
+  switch (curve.type) {
+    case 'linear': return `Linear ${curve.startWpm} → ${curve.endWpm} WPM`;
+    case 'stepped': return `${curve.steps} steps ${curve.startWpm} → ${curve.endWpm} WPM`;
+    case 'intervals': return `${curve.intervals}× sprint ${curve.sprintWpm} / recover ${curve.baseWpm} WPM`;
+    case 'plateau': return `Climb ${curve.startWpm} → hold ${curve.wpm} WPM`;
+  }
+};
+
+// --- BUILT-IN PROGRAMS ---
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+export const BUILT_IN_PROGRAMS: TrainingProgram[] = [
+  {
+    id: 'foundations-14',
+    name: '14-Day Foundations',
+    description: 'Steady linear ramps that lift both the starting and target speed a little every day.',
+    days: range(14).map(d => ({
+      curve: { type: 'linear', startWpm: 200 + d * 15, endWpm: 300 + d * 25 },
+      loops: d < 7 ? 2 : 3,
+      words: 300 + d * 25,
+    })),
+  },
+  {
+    id: 'sprints-7',
+    name: '7-Day Sprint Intervals',
+    description: 'Short fast bursts alternating with recovery pace to stretch the top speed.',
+    days: range(7).map(d => ({
+      curve: { type: 'intervals', baseWpm: 280 + d * 10, sprintWpm: 450 + d * 40, intervals: 3 + Math.floor(d / 2) },
+      loops: 2,
+      words: 400,
+    })),
+  },
+  {
+    id: 'plateau-21',
+    name: '21-Day Plateau Builder',
+    description: 'Stepped climbs followed by long holds so each new speed becomes comfortable.',
+    days: range(21).map(d => ({
+      curve: d % 3 === 2
+        ? { type: 'plateau', startWpm: 250 + d * 12, wpm: 320 + d * 18, rampFraction: 0.25 }
+        : { type: 'stepped', startWpm: 250 + d * 12, endWpm: 340 + d * 20, steps: 4 },
+      loops: 2,
+      words: 500,
+    })),
+  },
+];
+
+// --- JSON DEFINITIONS ---
+const fail = (msg: string): never => { throw new Error(`Invalid program: ${msg}`); };
+
+const num = (v: unknown, path: string, min: number, max: number) => {
+  if (typeof v !== 'number' || !Number.isFinite(v) || v < min || v > max) fail(`${path} must be a number between ${min} and ${max}`);
+  return v as number;
+};
+
+const parseCurve = (raw: any, path: string): SpeedCurve => {
+  const wpm = (k: string) => num(raw?.[k], `${path}.${k}`, 50, 1500);
+  switch (raw?.type) {
+    case 'linear': return { type: 'linear', startWpm: wpm('startWpm'), endWpm: wpm('endWpm') };
+    case 'stepped': return { type: 'stepped', startWpm: wpm('startWpm'), endWpm: wpm('endWpm'), steps: Math.round(num(raw.steps, `${path}.steps`, 2, 20)) };
+    case 'intervals': return { type: 'intervals', baseWpm: wpm('baseWpm'), sprintWpm: wpm('sprintWpm'), intervals: Math.round(num(raw.intervals, `${path}.intervals`, 1, 20)) };
+    case 'plateau': return { type: 'plateau', startWpm: wpm('startWpm'), wpm: wpm('wpm'), rampFraction: num(raw.rampFraction, `${path}.rampFraction`, 0, 1) };
+    default: return fail(`${path}.type must be linear, stepped, intervals or plateau`);
+  }
+};
+
+export const parseProgram = (json: string): TrainingProgram => {
+  let raw: any;
+  try { raw = JSON.parse(json); } catch { fail('file is not valid JSON'); }
+  if (typeof raw?.name !== 'string' || !raw.name.trim()) fail('name is required');
+  if (!Array.isArray(raw.days) || raw.days.length === 0) fail('days must be a non-empty array');
+  const days: TrainingDay[] = raw.days.map((d: any, i: number) => ({
+    curve: parseCurve(d?.curve, `days[${i}].curve`),
+    loops: Math.round(num(d?.loops ?? 1, `days[${i}].loops`, 1, 20)),
+    words: Math.round(num(d?.words ?? 0, `days[${i}].words`, 0, 100000)),
+  }));
+  return {
+    id: typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : `custom-${raw.name.trim().toLowerCase().replace(/\W+/g, '-')}`,
+    name: raw.name.trim(),
+    description: typeof raw.description === 'string' ? raw.description : '',
+    days,
+  };
+};
+
+// --- PROGRESSION ---
+export const enroll = (program: TrainingProgram): TrainingEnrollment => ({
+  programId: program.id, dayIndex: 0, adjustment: 1, history: [],
+});
+
+// Tomorrow's day unlocks once today's has been completed
+export const isDayLocked = (e: TrainingEnrollment, now = Date.now()) =>
+  e.history.length > 0 && e.history[e.history.length - 1].date === dayKey(now);
+
+export const scaledDay = (program: TrainingProgram, e: TrainingEnrollment): TrainingDay | null => {
+  const day = program.days[e.dayIndex];
+  return day ? { ...day, curve: scaleCurve(day.curve, e.adjustment) } : null;
+};
+
+// Nudge the next day's speed from how today went: comprehension first, otherwise smoothness
+export const completeDay = (e: TrainingEnrollment, s: ReadingSession, quiz: number | null, now = Date.now()): TrainingEnrollment => {
+  let factor = 1;
+  if (quiz !== null) {
+    if (quiz >= 0.8) factor = 1.05;
+    else if (quiz < 0.6) factor = 0.93;
+  } else {
+    const interruptions = ((s.pauses + s.rewinds) / Math.max(1, s.wordsRead)) * 1000;
+    if (interruptions <= 2) factor = 1.03;
+    else if (interruptions >= 8) factor = 0.95;
+  }
+  const adjustment = Math.min(Math.max(e.adjustment * factor, 0.7), 1.5);
+  return {
+    ...e,
+    dayIndex: e.dayIndex + 1,
+    adjustment,
+    history: [...e.history, { day: e.dayIndex + 1, date: dayKey(now), avgWpm: s.avgWpm, quiz, adjustment }],
+  };
+};
+
+// Passage for a training day: from the sentence at `from`, extended to a sentence end past `words` words
+export const trainingSpan = (doc: DocModel, from: number, words: number): Span => {
+  const total = doc.words.length;
+  if (words <= 0 || words >= total) return { start: 0, end: total };
+  const first = doc.sentences.find(s => s.end > from) || doc.sentences[0];
+  let start = first.start;
+  if (total - start < words) start = [...doc.sentences].reverse().find(s => s.start <= total - words)?.start ?? 0;
+  const last = doc.sentences.find(s => s.end - start >= words);
+  return { start, end: last ? last.end : total };
+};
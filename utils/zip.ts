@@ -0,0 +1,58 @@
+// Minimal read-only ZIP reader (enough for EPUB containers).
+// Inflation uses the platform DecompressionStream, so no bundled codec is needed.
+
+export interface ZipEntry {
+  name: string;
+  read: () => Promise<Uint8Array>;
+}
+
+const EOCD_SIG = 0x06054b50;
+const CENTRAL_SIG = 0x02014b50;
+const LOCAL_SIG = 0x04034b50;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const readZip = (buffer: ArrayBuffer): Map<string, ZipEntry> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits in the last 64KB (+22 bytes) of the archive
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === EOCD_SIG) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('Not a valid ZIP archive.');
+
+  const count = view.getUint16(eocd + 10, true);
+  let ptr = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(ptr, true) !== CENTRAL_SIG) throw new Error('Corrupt ZIP central directory.');
+    const method = view.getUint16(ptr + 10, true);
+    const compressedSize = view.getUint32(ptr + 20, true);
+    const nameLen = view.getUint16(ptr + 28, true);
+    const extraLen = view.getUint16(ptr + 30, true);
+    const commentLen = view.getUint16(ptr + 32, true);
+    const localOffset = view.getUint32(ptr + 42, true);
+    const name = decoder.decode(bytes.subarray(ptr + 46, ptr + 46 + nameLen));
+    ptr += 46 + nameLen + extraLen + commentLen;
+
+    entries.set(name, {
+      name,
+      read: async () => {
+        if (view.getUint32(localOffset, true) !== LOCAL_SIG) throw new Error(`Corrupt ZIP entry: ${name}`);
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const raw = bytes.subarray(start, start + compressedSize);
+        if (method === 0) return raw;
+        if (method === 8) return inflateRaw(raw);
+        throw new Error(`Unsupported ZIP compression (${method}) in ${name}`);
+      },
+    });
+  }
+  return entries;
+};